@@ -0,0 +1,104 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { StencilConstants } from './constants';
+import { getClosestMatch } from './strings';
+import { checkType, isBoolean, isNumber, isString } from './ts-util/type';
+
+/** How a component is being used: JSX sets properties by name, HTML markup sets attributes */
+export type Markup = 'jsx' | 'html';
+
+/** A prop as it can be set from markup */
+export interface PropAttribute {
+    name: string,
+    /** `undefined` when the prop has no attribute, e.g. `connect`/`context` props */
+    attribute: string,
+    type: ts.Type
+}
+
+export interface AttributeUsage {
+    name: string,
+    textSpan: ts.TextSpan,
+    /** Literal value, `undefined` for a bare attribute such as `<my-card open>` */
+    value?: string,
+    /** JSX `{expression}` values are left to the type checker */
+    isExpression?: boolean
+}
+
+export interface AttributeProblem {
+    code: 'UnknownAttribute' | 'InvalidAttributeValue' | 'AttributeNameCase',
+    textSpan: ts.TextSpan,
+    messageText: string
+}
+
+const isUnchecked = (type: ts.Type) => !!(type.flags & ts.TypeFlags.Any);
+const isPlainString = (type: ts.Type) => isString(type) && !(type.flags & ts.TypeFlags.StringLiteral);
+const isPlainNumber = (type: ts.Type) => isNumber(type) && !(type.flags & ts.TypeFlags.NumberLiteral);
+
+/** String and number literal members of a prop type, e.g. `small`, `large` for `'small' | 'large'` */
+export function getLiteralValues(type: ts.Type): string[] {
+    const types = type.flags & ts.TypeFlags.Union ? (type as ts.UnionType).types : [type];
+    return types
+        .filter(t => t.flags & (ts.TypeFlags.StringLiteral | ts.TypeFlags.NumberLiteral))
+        .map(t => String((t as ts.LiteralType).value));
+}
+
+/** Values worth suggesting for a prop: `true`/`false` for booleans and the members of literal unions */
+export function getValueCompletions(type: ts.Type): string[] {
+    return [...(checkType(type, isBoolean) ? ['true', 'false'] : []), ...getLiteralValues(type)];
+}
+
+/** Whether Stencil can turn an attribute value (or a bare attribute) into a value of the prop's type */
+function isCoercible(type: ts.Type, value: string | undefined) {
+    if (checkType(type, isUnchecked)) { return true; }
+    if (value === undefined) { return checkType(type, isBoolean); }
+    return checkType(type, isPlainString)
+        || (checkType(type, isBoolean) && ['', 'true', 'false'].includes(value))
+        || (checkType(type, isPlainNumber) && value.trim() !== '' && !isNaN(Number(value)))
+        || getLiteralValues(type).includes(value);
+}
+
+function isGlobalAttribute(stencil: StencilConstants, markup: Markup, name: string) {
+    return stencil.GlobalAttributes.includes(name)
+        || /^(aria|data)-/.test(name)
+        || (markup === 'jsx' ? /^on[A-Z]/.test(name) : /^on[a-z]+$/.test(name));
+}
+
+/**
+ * Checks the attributes set on a component's tag against its props and events: unknown names,
+ * prop names spelled with the wrong case for the markup, and literal values Stencil cannot coerce
+ * to the prop's type.
+ */
+export function validateAttributes(markup: Markup, tag: string, props: PropAttribute[], eventAttributes: string[], usages: AttributeUsage[], checker: ts.TypeChecker, stencil: StencilConstants): AttributeProblem[] {
+    const problems: AttributeProblem[] = [];
+    usages.forEach((usage) => {
+        const name = markup === 'html' ? usage.name.toLowerCase() : usage.name;
+        const prop = markup === 'jsx' ? props.find(p => p.name === name) : props.find(p => p.attribute === name);
+
+        if (!prop) {
+            const miscased = markup === 'jsx' ? props.find(p => p.attribute === name) : props.find(p => p.name === usage.name || p.name.toLowerCase() === name);
+            if (miscased && markup === 'jsx') {
+                problems.push({ code: 'AttributeNameCase', textSpan: usage.textSpan, messageText: `Use the property name '${miscased.name}' instead of the attribute '${usage.name}' to set it from JSX.` });
+            } else if (miscased && miscased.attribute) {
+                problems.push({ code: 'AttributeNameCase', textSpan: usage.textSpan, messageText: `HTML attributes are case-insensitive, use the attribute '${miscased.attribute}' to set '${miscased.name}'.` });
+            } else if (miscased) {
+                problems.push({ code: 'AttributeNameCase', textSpan: usage.textSpan, messageText: `'${miscased.name}' has no attribute and can only be set as a property.` });
+            } else if (!eventAttributes.includes(usage.name) && !isGlobalAttribute(stencil, markup, usage.name)) {
+                const known = [...props.map(p => markup === 'jsx' ? p.name : p.attribute).filter(x => x), ...eventAttributes];
+                const closest = getClosestMatch(usage.name, known);
+                problems.push({ code: 'UnknownAttribute', textSpan: usage.textSpan, messageText: `'${usage.name}' is not a prop or event of <${tag}>.${closest ? ` Did you mean '${closest}'?` : ''}` });
+            }
+            return;
+        }
+
+        if (!usage.isExpression && !isCoercible(prop.type, usage.value)) {
+            const typeText = checker.typeToString(prop.type);
+            problems.push({
+                code: 'InvalidAttributeValue',
+                textSpan: usage.textSpan,
+                messageText: usage.value === undefined
+                    ? `'${usage.name}' of <${tag}> expects a value of type '${typeText}'.`
+                    : `'${usage.value}' cannot be converted to '${typeText}' for '${usage.name}' of <${tag}>.`
+            });
+        }
+    });
+    return problems;
+}
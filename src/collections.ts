@@ -0,0 +1,84 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { dirname } from './ts-util/path';
+
+export interface CollectionComponent {
+    tag: string,
+    packageName: string,
+    fileName: string
+}
+
+export interface CollectionHost {
+    readFile(path: string): string | undefined,
+    fileExists(path: string): boolean
+}
+
+function readJson(host: CollectionHost, path: string) {
+    if (!host.fileExists(path)) { return undefined; }
+    try {
+        return JSON.parse(host.readFile(path));
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Collects the custom element tags a typings file declares through `HTMLElementTagNameMap`
+ * or `JSX.IntrinsicElements`, which is how Stencil collections expose their components.
+ */
+function getDeclaredTags(host: CollectionHost, fileName: string): string[] {
+    const sourceFile = ts.createSourceFile(fileName, host.readFile(fileName) || '', ts.ScriptTarget.Latest, false);
+    const tags: string[] = [];
+    function visit(node: ts.Node) {
+        if (ts.isInterfaceDeclaration(node) && ['HTMLElementTagNameMap', 'IntrinsicElements', 'StencilIntrinsicElements'].includes(node.name.text)) {
+            node.members.forEach((member) => {
+                if (member.name && ts.isStringLiteral(member.name) && member.name.text.includes('-') && !tags.includes(member.name.text)) {
+                    tags.push(member.name.text);
+                }
+            });
+        }
+        ts.forEachChild(node, visit);
+    }
+    visit(sourceFile);
+    return tags;
+}
+
+/**
+ * Finds the components shipped by Stencil collections installed in `node_modules`. A package
+ * counts as a collection when its package.json has a `collection` entry or it is listed in
+ * `extraPackages`.
+ */
+export function getCollectionComponents(host: CollectionHost, projectDir: string, extraPackages: string[] = []): CollectionComponent[] {
+    const pkg = readJson(host, `${projectDir}/package.json`) || {};
+    const dependencies = Object.keys(Object.assign({}, pkg.dependencies, pkg.devDependencies));
+    const packageNames = [...dependencies, ...extraPackages.filter(name => !dependencies.includes(name))];
+
+    const components: CollectionComponent[] = [];
+    packageNames.forEach((packageName) => {
+        const packageDir = `${projectDir}/node_modules/${packageName}`;
+        const packageJson = readJson(host, `${packageDir}/package.json`);
+        if (!packageJson || !(packageJson.collection || extraPackages.includes(packageName))) { return; }
+
+        const typings = packageJson.types || packageJson.typings;
+        const candidates = typings ? [`${packageDir}/${typings}`, `${dirname(`${packageDir}/${typings}`)}/components.d.ts`] : [];
+        candidates
+            .filter((fileName, i) => candidates.indexOf(fileName) === i && host.fileExists(fileName))
+            .forEach((fileName) => {
+                getDeclaredTags(host, fileName)
+                    .filter(tag => !components.some(c => c.tag === tag))
+                    .forEach(tag => components.push({ tag, packageName, fileName }));
+            });
+    });
+    return components;
+}
+
+/**
+ * Major version of the project's `@stencil/core`: the installed package when present, otherwise
+ * the first number in the dependency range from the project's package.json.
+ */
+export function getStencilVersion(host: CollectionHost, projectDir: string): number | undefined {
+    const installed = readJson(host, `${projectDir}/node_modules/@stencil/core/package.json`);
+    const pkg = readJson(host, `${projectDir}/package.json`) || {};
+    const range = (installed && installed.version) || Object.assign({}, pkg.dependencies, pkg.devDependencies)['@stencil/core'];
+    const match = typeof range === 'string' && /(\d+)\./.exec(range);
+    return match ? parseInt(match[1], 10) : undefined;
+}
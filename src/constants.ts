@@ -0,0 +1,429 @@
+import { MetaCategory } from './meta';
+
+/** Major `@stencil/core` version assumed when the project's version cannot be detected */
+export const LatestStencilVersion = 4;
+
+/**
+ * Known Stencil APIs for one major version of `@stencil/core`. Stencil 0.x components used
+ * `hostData()`, `componentDidUnload()` and `@Prop({ reflectToAttr, context, connect })`; 1.x
+ * introduced the custom element callbacks, `<Host>` and `reflect` and deprecated the former,
+ * and 2.x removed them.
+ */
+export class StencilConstants {
+    constructor(public version: number = LatestStencilVersion) {}
+
+    Decorators = [
+        'Component',
+        'Prop',
+        'State',
+        'Element',
+        'Event',
+        'Listen',
+        'Method',
+        'Watch',
+        ...(this.version < 1 ? ['PropWillChange', 'PropDidChange'] : []),
+        ...(this.version >= 4 ? ['AttachInternals'] : [])
+    ]
+    /** Paths relative to the configured `docsUrl` */
+    DecoratorDocs = this.version < 1 ? {
+        'Component': 'component',
+        'Prop': 'decorators/#prop',
+        'State': 'decorators/#state',
+        'Element': 'decorators/#element',
+        'Event': 'events',
+        'Listen': 'events/#listen-decorator',
+        'Method': 'decorators/#method',
+        'Watch': 'decorators/#watch-prop-'
+    } : {
+        'Component': 'component',
+        'Prop': 'properties',
+        'State': 'state',
+        'Element': 'host-element#element-decorator',
+        'Event': 'events',
+        'Listen': 'events#listen-decorator',
+        'Method': 'methods',
+        'Watch': 'reactive-data#watch-decorator',
+        'AttachInternals': 'form-associated',
+        'Host': 'host-element'
+    }
+    /** Non-decorator exports of `@stencil/core` that are documented on hover */
+    CoreExports = this.version < 1 ? [] : ['Host']
+    CoreExportDocs = {
+        'Host': '\n\nFunctional component that sets attributes, classes and listeners on the host element when returned as the root of `render()`.'
+    }
+    ComponentBuiltinMethods = [
+        'render',
+        ...(this.version < 2 ? ['hostData'] : [])
+    ]
+    ComponentBuiltinMethodDocs = {
+        'render': '\n\nReturns a tree of components that will be rendered to the DOM at runtime.',
+        'hostData': '\n\nDynamically sets attributes on the host element.'
+    }
+    ComponentLifecycleMethods = this.version < 1 ? [
+        'componentWillLoad',
+        'componentDidLoad',
+        'componentWillUpdate',
+        'componentDidUpdate',
+        'componentDidUnload'
+    ] : [
+        'connectedCallback',
+        'disconnectedCallback',
+        'componentWillLoad',
+        'componentDidLoad',
+        'componentShouldUpdate',
+        'componentWillRender',
+        'componentDidRender',
+        'componentWillUpdate',
+        'componentDidUpdate',
+        ...(this.version < 2 ? ['componentDidUnload'] : [])
+    ];
+    ComponentLifecycleDocs = {
+        'connectedCallback': '\n\nCalled every time the component is connected to the DOM.\n\nUnlike `componentWillLoad`, it can be called more than once, e.g. when the element is moved.',
+        'disconnectedCallback': '\n\nCalled every time the component is disconnected from the DOM.\n\nThis is the place to clean up listeners and timers.',
+        'componentWillLoad': '\n\nThe component is about to load and it has not rendered yet.\n\nThis is the best place to make any data updates before the first render.\n\n`componentWillLoad` will only be called once.',
+        'componentDidLoad': '\n\nThe component has loaded and has already rendered.\n\nUpdating data in this method will cause the component to re-render.\n\n`componentDidLoad` will only be called once.',
+        'componentShouldUpdate': '\n\nCalled when a `@Prop` or `@State` changes, with the new value, the old value and the member name.\n\nReturning `false` skips the re-render.',
+        'componentWillRender': '\n\nCalled before every `render()`, including the first one.',
+        'componentDidRender': '\n\nCalled after every `render()`, including the first one.',
+        'componentWillUpdate': '\n\nThe component is about to update and re-render.\n\nCalled multiple times throughout the life of the component as it updates.\n\n`componentWillUpdate` is not called on the first render.',
+        'componentDidUpdate': '\n\nThe component has just re-rendered.\n\nCalled multiple times throughout the life of the component as it updates.\n\n`componentDidUpdate` is not called on the first render.',
+        'componentDidUnload': '\n\nThe component did unload and the element will be destroyed.'
+    }
+    /** Deprecated members and decorators of this version, with what to use instead */
+    DeprecatedApis: { [name: string]: string } = this.version < 1 ? {
+        'PropWillChange': 'Use `@Watch()` instead.',
+        'PropDidChange': 'Use `@Watch()` instead.'
+    } : this.version < 2 ? {
+        'componentDidUnload': 'Use `disconnectedCallback()` instead.',
+        'hostData': 'Return a `<Host>` element from `render()` instead.'
+    } : {}
+
+    /** Options each decorator accepts, mapped to the kind of value inserted when completing them */
+    DecoratorOptions: { [decorator: string]: { [option: string]: 'string' | 'boolean' | 'array' | 'object' } } = {
+        'Component': this.version < 1 ? {
+            'tag': 'string',
+            'styleUrl': 'string',
+            'styleUrls': 'array',
+            'styles': 'string',
+            'shadow': 'boolean',
+            'scoped': 'boolean',
+            'host': 'object',
+            'assetsDir': 'string'
+        } : {
+            'tag': 'string',
+            'styleUrl': 'string',
+            'styleUrls': 'array',
+            'styles': 'string',
+            'shadow': 'boolean',
+            'scoped': 'boolean',
+            'assetsDirs': 'array',
+            ...(this.version >= 4 ? { 'formAssociated': 'boolean' as 'boolean' } : {})
+        },
+        'Prop': this.version < 1 ? {
+            'attr': 'string',
+            'context': 'string',
+            'connect': 'string',
+            'mutable': 'boolean',
+            'reflectToAttr': 'boolean'
+        } : {
+            'attribute': 'string',
+            'mutable': 'boolean',
+            'reflect': 'boolean'
+        },
+        'Event': {
+            'eventName': 'string',
+            'bubbles': 'boolean',
+            'composed': 'boolean',
+            'cancelable': 'boolean'
+        },
+        'Listen': this.version < 1 ? {
+            'passive': 'boolean',
+            'capture': 'boolean'
+        } : {
+            'target': 'string',
+            'passive': 'boolean',
+            'capture': 'boolean'
+        },
+        'State': {},
+        'Element': {},
+        'Method': {}
+    }
+    /** Keys Stencil provides to `@Prop({ context })` before 2.x */
+    ContextKeys = this.version < 2 ? [
+        'config',
+        'document',
+        'enableListener',
+        'isClient',
+        'isPrerender',
+        'isServer',
+        'publicPath',
+        'queue',
+        'resourcesUrl',
+        'window'
+    ] : []
+    /** Values offered for `@Listen({ target })` */
+    ListenTargets = this.version < 2 ? ['body', 'document', 'window', 'parent'] : ['body', 'document', 'window']
+    /** Common DOM events offered inside `@Listen('')` after the project's own events */
+    DomEvents = [
+        'click',
+        'dblclick',
+        'contextmenu',
+        'mousedown',
+        'mouseup',
+        'mousemove',
+        'mouseenter',
+        'mouseleave',
+        'mouseover',
+        'mouseout',
+        'pointerdown',
+        'pointerup',
+        'pointermove',
+        'pointercancel',
+        'touchstart',
+        'touchmove',
+        'touchend',
+        'touchcancel',
+        'wheel',
+        'keydown',
+        'keyup',
+        'focus',
+        'blur',
+        'focusin',
+        'focusout',
+        'input',
+        'change',
+        'submit',
+        'reset',
+        'scroll',
+        'resize',
+        'dragstart',
+        'drag',
+        'dragend',
+        'dragenter',
+        'dragleave',
+        'dragover',
+        'drop',
+        'animationend',
+        'transitionend',
+        'load',
+        'error',
+        'hashchange',
+        'popstate',
+        'online',
+        'offline',
+        'visibilitychange'
+    ]
+    /** Deprecated `@Prop()` options of this version, with what to use instead */
+    DeprecatedPropOptions: { [name: string]: string } = this.version < 1 ? {} : this.version < 2 ? {
+        'attr': 'Use `attribute` instead.',
+        'reflectToAttr': 'Use `reflect` instead.',
+        'context': 'Removed in Stencil 2.',
+        'connect': 'Removed in Stencil 2.'
+    } : {}
+
+    /** Why `name` (a member, decorator or, with `propOption`, a `@Prop()` option) is deprecated in this version */
+    getDeprecation(name: string, propOption: boolean = false): string | undefined {
+        const deprecations = propOption ? this.DeprecatedPropOptions : this.DeprecatedApis;
+        return deprecations.hasOwnProperty(name) ? deprecations[name] : undefined;
+    }
+
+    /** Top-level keys of `hostData()` and attributes of `<Host>` besides ARIA attributes */
+    HostAttributes = [
+        'class',
+        'style',
+        'slot',
+        'role',
+        'tabindex',
+        'title',
+        'hidden',
+        'dir',
+        'lang'
+    ]
+    /** ARIA attributes mapped to their enumerated values, empty for free-form values */
+    AriaAttributes: { [name: string]: string[] } = {
+        'aria-label': [],
+        'aria-labelledby': [],
+        'aria-describedby': [],
+        'aria-controls': [],
+        'aria-owns': [],
+        'aria-hidden': ['true', 'false'],
+        'aria-expanded': ['true', 'false'],
+        'aria-disabled': ['true', 'false'],
+        'aria-selected': ['true', 'false'],
+        'aria-busy': ['true', 'false'],
+        'aria-atomic': ['true', 'false'],
+        'aria-modal': ['true', 'false'],
+        'aria-required': ['true', 'false'],
+        'aria-readonly': ['true', 'false'],
+        'aria-multiselectable': ['true', 'false'],
+        'aria-checked': ['true', 'false', 'mixed'],
+        'aria-pressed': ['true', 'false', 'mixed'],
+        'aria-live': ['off', 'polite', 'assertive'],
+        'aria-haspopup': ['false', 'true', 'menu', 'listbox', 'tree', 'grid', 'dialog'],
+        'aria-current': ['false', 'true', 'page', 'step', 'location', 'date', 'time'],
+        'aria-invalid': ['false', 'true', 'grammar', 'spelling'],
+        'aria-orientation': ['horizontal', 'vertical'],
+        'aria-autocomplete': ['none', 'inline', 'list', 'both'],
+        'aria-sort': ['none', 'ascending', 'descending', 'other'],
+        'aria-level': [],
+        'aria-valuemin': [],
+        'aria-valuemax': [],
+        'aria-valuenow': [],
+        'aria-valuetext': [],
+        'aria-roledescription': [],
+        'aria-placeholder': []
+    }
+    AriaRoles = [
+        'alert',
+        'alertdialog',
+        'application',
+        'article',
+        'banner',
+        'button',
+        'cell',
+        'checkbox',
+        'columnheader',
+        'combobox',
+        'complementary',
+        'contentinfo',
+        'definition',
+        'dialog',
+        'directory',
+        'document',
+        'feed',
+        'figure',
+        'form',
+        'grid',
+        'gridcell',
+        'group',
+        'heading',
+        'img',
+        'link',
+        'list',
+        'listbox',
+        'listitem',
+        'log',
+        'main',
+        'marquee',
+        'math',
+        'menu',
+        'menubar',
+        'menuitem',
+        'menuitemcheckbox',
+        'menuitemradio',
+        'navigation',
+        'none',
+        'note',
+        'option',
+        'presentation',
+        'progressbar',
+        'radio',
+        'radiogroup',
+        'region',
+        'row',
+        'rowgroup',
+        'rowheader',
+        'scrollbar',
+        'search',
+        'searchbox',
+        'separator',
+        'slider',
+        'spinbutton',
+        'status',
+        'switch',
+        'tab',
+        'table',
+        'tablist',
+        'tabpanel',
+        'term',
+        'textbox',
+        'timer',
+        'toolbar',
+        'tooltip',
+        'tree',
+        'treegrid',
+        'treeitem'
+    ]
+
+    /** Attributes valid on any element besides `aria-*`, `data-*` and event handlers */
+    GlobalAttributes = [
+        'class',
+        'className',
+        'id',
+        'style',
+        'slot',
+        'part',
+        'exportparts',
+        'key',
+        'ref',
+        'hidden',
+        'title',
+        'role',
+        'tabindex',
+        'tabIndex',
+        'dir',
+        'lang',
+        'draggable',
+        'inert',
+        'translate',
+        'contenteditable',
+        'contentEditable',
+        'innerHTML',
+        'textContent'
+    ]
+
+    DiagnosticSource = 'stencil'
+    DiagnosticCodes = {
+        'UnknownWatchTarget': 91001,
+        'InvalidListenHandler': 91002,
+        'UntypedEventEmitter': 91003,
+        'UnexportedComponent': 91004,
+        'InvalidStyles': 91005,
+        'UnknownAttribute': 91006,
+        'InvalidAttributeValue': 91007,
+        'AttributeNameCase': 91008,
+        'UnknownDecoratorOption': 91009,
+        'RenderStateChange': 91010,
+        'ImmutablePropAssignment': 91011,
+        'UnawaitedMethodCall': 91012,
+        'InvalidEventDetail': 91013,
+        'IncompatibleEventHandler': 91014,
+        'UnknownSlot': 91015,
+        'UnregisteredSpecComponent': 91016
+    }
+
+    StyleSelectors = [
+        ':host',
+        ':host()',
+        ':host-context()',
+        '::slotted()',
+        '::part()'
+    ]
+
+    CodeFixes = {
+        'AddProp': 'stencilAddProp',
+        'AddState': 'stencilAddState',
+        'ChangeWatchTarget': 'stencilChangeWatchTarget'
+    }
+    /** Groups of the document outline in display order, with the member categories listed under each */
+    OutlineGroups: { label: string, categories: MetaCategory[] }[] = [
+        { label: 'Element', categories: ['element'] },
+        { label: 'State', categories: ['state'] },
+        { label: 'Props', categories: ['prop:connect', 'prop:context', 'prop'] },
+        { label: 'Watchers', categories: ['watch'] },
+        { label: 'Events', categories: ['event'] },
+        { label: 'Lifecycle', categories: ['lifecycle'] },
+        { label: 'Listeners', categories: ['listen'] },
+        { label: 'Methods', categories: ['method'] },
+        { label: 'Private', categories: ['own property', 'local method'] }
+    ]
+    Refactors = {
+        'DecorateMember': 'stencil-decorate-member',
+        'AddEvent': 'stencil-add-event',
+        'AddLifecycle': 'stencil-add-lifecycle',
+        'SyncComponentName': 'stencil-sync-component-name',
+        'GenerateDocs': 'stencil-generate-docs'
+    }
+}
+
+export const Stencil = new StencilConstants();
@@ -0,0 +1,264 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { getCSSLanguageService } from 'vscode-css-languageservice';
+import { CompletionItemKind, DiagnosticSeverity, MarkedString, Range, TextDocument } from 'vscode-languageserver-types';
+import { isTagged } from './ts-util/index';
+
+const cssService = getCSSLanguageService();
+
+/** A stylesheet embedded in a TypeScript file, e.g. the `styles` literal of `@Component` */
+export interface StyleRegion {
+    node: ts.Node,
+    start: number,
+    document: TextDocument
+}
+
+export interface StyleCompletionOptions {
+    /** Extra selectors offered at the top level of the stylesheet, e.g. `:host` */
+    selectors: string[],
+    /** Custom properties offered as `var(--name)` inside declarations */
+    customProperties: string[],
+    /** Shadow parts of the project's components, offered inside `::part()` */
+    parts: { tag: string, name: string }[]
+}
+
+/**
+ * Shadow parts offered inside `::part()`: those of the component whose tag the selector starts
+ * with, e.g. `my-card::part(`, or every known part when the tag is unknown.
+ */
+function getPartCompletions(before: string, position: number, parts: { tag: string, name: string }[]): ts.CompletionInfo | undefined {
+    const match = /([^\s,{}>+~()]*)::part\(([\w-]*)$/.exec(before);
+    if (!match) { return undefined; }
+    const tagMatch = /^[a-z][a-z0-9]*-[a-z0-9-]*/.exec(match[1]);
+    const tag = tagMatch && parts.some(part => part.tag === tagMatch[0]) ? tagMatch[0] : undefined;
+    const names = parts.filter(part => !tag || part.tag === tag).map(part => part.name).filter((name, i, all) => all.indexOf(name) === i);
+    const replacementSpan = { start: position - match[2].length, length: match[2].length };
+    return {
+        isGlobalCompletion: false,
+        isMemberCompletion: false,
+        isNewIdentifierLocation: true,
+        entries: names.map(name => ({
+            name,
+            kind: ts.ScriptElementKind.string,
+            kindModifiers: '',
+            sortText: `0-${name}`,
+            replacementSpan
+        }))
+    };
+}
+
+function isStylesInitializer(node: ts.Node) {
+    const assignment = node.parent;
+    if (!assignment || !ts.isPropertyAssignment(assignment) || assignment.initializer !== node) { return false; }
+    if (!ts.isIdentifier(assignment.name) || assignment.name.text !== 'styles') { return false; }
+    const call = assignment.parent && assignment.parent.parent;
+    return !!call && ts.isCallExpression(call) && ts.isIdentifier(call.expression) && call.expression.text === 'Component' && ts.isDecorator(call.parent);
+}
+
+/**
+ * Resolves the `styles` literal of a `@Component` decorator containing `node`, including
+ * templates tagged with `css`. Substitutions are blanked out so offsets stay aligned.
+ */
+export function getStyleRegion(node: ts.Node): StyleRegion | undefined {
+    let literal = node;
+    while (literal && !ts.isStringLiteral(literal) && !ts.isNoSubstitutionTemplateLiteral(literal) && !ts.isTemplateExpression(literal)) {
+        if (ts.isBlock(literal) || ts.isSourceFile(literal)) { return undefined; }
+        if (literal.parent && ts.isTemplateSpan(literal.parent) && literal.parent.expression === literal) { return undefined; }
+        literal = literal.parent;
+    }
+    if (!literal) { return undefined; }
+
+    const styles = isTagged(literal, 'css') ? literal.parent : literal;
+    if (!isStylesInitializer(styles)) { return undefined; }
+
+    const sourceFile = literal.getSourceFile();
+    const start = literal.getStart() + 1;
+    let text = sourceFile.text.slice(start, literal.getEnd() - 1);
+    if (ts.isTemplateExpression(literal)) {
+        literal.templateSpans.forEach((span) => {
+            const from = span.expression.getFullStart() - 2 - start;
+            const to = span.literal.getStart() + 1 - start;
+            text = text.slice(0, from) + 'x'.repeat(to - from) + text.slice(to);
+        });
+    }
+
+    return { node: literal, start, document: TextDocument.create(`${sourceFile.fileName}.css`, 'css', 0, text) };
+}
+
+export function getStyleRegions(sourceFile: ts.SourceFile): StyleRegion[] {
+    const regions: StyleRegion[] = [];
+    function visit(node: ts.Node) {
+        if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+            const region = getStyleRegion(node);
+            if (region) { regions.push(region); }
+            return;
+        }
+        ts.forEachChild(node, visit);
+    }
+    visit(sourceFile);
+    return regions;
+}
+
+/** Collects the custom properties (`--name`) declared in a stylesheet */
+export function getCustomProperties(text: string): string[] {
+    const properties: string[] = [];
+    const pattern = /(--[\w-]+)\s*:/g;
+    let match: RegExpExecArray;
+    while ((match = pattern.exec(text))) {
+        if (!properties.includes(match[1])) { properties.push(match[1]); }
+    }
+    return properties;
+}
+
+function toCompletionKind(kind: CompletionItemKind): ts.ScriptElementKind {
+    switch (kind) {
+        case CompletionItemKind.Property: return ts.ScriptElementKind.memberVariableElement;
+        case CompletionItemKind.Function: return ts.ScriptElementKind.functionElement;
+        case CompletionItemKind.Variable: return ts.ScriptElementKind.variableElement;
+        case CompletionItemKind.Value:
+        case CompletionItemKind.Color: return ts.ScriptElementKind.string;
+        default: return ts.ScriptElementKind.keyword;
+    }
+}
+
+function stripSnippet(text: string) {
+    return text.replace(/\$\{\d+:?([^}]*)\}/g, '$1').replace(/\$\d+/g, '');
+}
+
+function isTopLevel(text: string, offset: number) {
+    let depth = 0;
+    for (let i = 0; i < offset; i++) {
+        if (text[i] === '{') { depth++; }
+        else if (text[i] === '}') { depth = Math.max(0, depth - 1); }
+    }
+    return depth === 0;
+}
+
+export function getStyleCompletions(region: StyleRegion, position: number, options: StyleCompletionOptions): ts.CompletionInfo {
+    const { document } = region;
+    const offset = position - region.start;
+    const text = document.getText();
+    const partCompletions = getPartCompletions(text.slice(0, offset), position, options.parts);
+    if (partCompletions) { return partCompletions; }
+    const stylesheet = cssService.parseStylesheet(document);
+    const list = cssService.doComplete(document, document.positionAt(offset), stylesheet);
+
+    const toSpan = (range: Range): ts.TextSpan => {
+        const start = document.offsetAt(range.start);
+        return { start: region.start + start, length: document.offsetAt(range.end) - start };
+    };
+    const entries: ts.CompletionEntry[] = list.items.map(item => ({
+        name: item.label,
+        kind: toCompletionKind(item.kind),
+        kindModifiers: '',
+        sortText: item.sortText || item.label,
+        insertText: stripSnippet(item.textEdit ? item.textEdit.newText : item.insertText || item.label),
+        replacementSpan: item.textEdit ? toSpan(item.textEdit.range) : undefined
+    }));
+
+    const wordStart = text.slice(0, offset).search(/[\w:()-]*$/);
+    const wordSpan = { start: region.start + wordStart, length: offset - wordStart };
+    if (isTopLevel(text, offset) || text[wordStart] === ':') {
+        options.selectors.forEach(selector => entries.unshift({
+            name: selector,
+            kind: ts.ScriptElementKind.keyword,
+            kindModifiers: '',
+            sortText: `0-${selector}`,
+            insertText: selector,
+            replacementSpan: wordSpan
+        }));
+    } else {
+        options.customProperties.forEach(property => entries.push({
+            name: `var(${property})`,
+            kind: ts.ScriptElementKind.variableElement,
+            kindModifiers: '',
+            sortText: `0-${property}`,
+            insertText: `var(${property})`,
+            replacementSpan: wordSpan
+        }));
+    }
+
+    return {
+        isGlobalCompletion: false,
+        isMemberCompletion: false,
+        isNewIdentifierLocation: true,
+        entries
+    };
+}
+
+export function getStyleQuickInfo(region: StyleRegion, position: number): ts.QuickInfo | undefined {
+    const { document } = region;
+    const hover = cssService.doHover(document, document.positionAt(position - region.start), cssService.parseStylesheet(document));
+    if (!hover) { return undefined; }
+
+    const contents = Array.isArray(hover.contents) ? hover.contents : [hover.contents];
+    const text = contents
+        .map((content: MarkedString | { kind: string, value: string }) => {
+            if (typeof content === 'string') { return content; }
+            return 'language' in content ? '```' + content.language + '\n' + content.value + '\n```' : content.value;
+        })
+        .join('\n\n');
+    const start = hover.range ? document.offsetAt(hover.range.start) : position - region.start;
+    const end = hover.range ? document.offsetAt(hover.range.end) : start;
+
+    return {
+        kind: ts.ScriptElementKind.string,
+        kindModifiers: '',
+        textSpan: { start: region.start + start, length: end - start },
+        displayParts: [],
+        documentation: [{ kind: 'markdown', text }],
+        tags: []
+    };
+}
+
+export function getStyleDiagnostics(region: StyleRegion, code: number, source: string): ts.Diagnostic[] {
+    const { document } = region;
+    return cssService.doValidation(document, cssService.parseStylesheet(document)).map(diagnostic => {
+        const start = document.offsetAt(diagnostic.range.start);
+        return {
+            file: region.node.getSourceFile(),
+            start: region.start + start,
+            length: document.offsetAt(diagnostic.range.end) - start,
+            messageText: diagnostic.message,
+            category: diagnostic.severity === DiagnosticSeverity.Error ? ts.DiagnosticCategory.Error : ts.DiagnosticCategory.Warning,
+            code,
+            source
+        };
+    });
+}
+
+/** Custom properties documented in comments with Stencil's `@prop --name: Description` convention */
+export function getDocumentedCustomProperties(text: string): { name: string, description: string }[] {
+    const documented: { name: string, description: string }[] = [];
+    const pattern = /@prop\s+(--[\w-]+)\s*:?[ \t]*([^\n*]*)/g;
+    let match: RegExpExecArray;
+    while ((match = pattern.exec(text))) {
+        if (!documented.some(d => d.name === match[1])) { documented.push({ name: match[1], description: match[2].trim() }); }
+    }
+    return documented;
+}
+
+let cssPropertyNames: string[];
+
+/** Every CSS property known to the CSS language service, e.g. `background-color` */
+export function getCssPropertyNames(): string[] {
+    if (!cssPropertyNames) {
+        const document = TextDocument.create('properties.css', 'css', 0, 'x{}');
+        const list = cssService.doComplete(document, document.positionAt(2), cssService.parseStylesheet(document));
+        cssPropertyNames = list.items.filter(item => item.kind === CompletionItemKind.Property).map(item => item.label);
+    }
+    return cssPropertyNames;
+}
+
+/** Class names used in the selectors of a stylesheet, including `:host(.name)` */
+export function getClassSelectors(text: string): string[] {
+    const classes: string[] = [];
+    const preludes = text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/"[^"]*"|'[^']*'/g, '""').match(/[^{};]*\{/g) || [];
+    preludes.forEach((prelude) => {
+        const pattern = /\.(-?[_a-zA-Z][\w-]*)/g;
+        let match: RegExpExecArray;
+        while ((match = pattern.exec(prelude))) {
+            if (!classes.includes(match[1])) { classes.push(match[1]); }
+        }
+    });
+    return classes;
+}
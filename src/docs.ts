@@ -0,0 +1,101 @@
+import { markdownTable } from './hover';
+import { ComponentReference } from './reference';
+
+/** Text above this line of a component README is written by hand and kept when the docs are regenerated */
+export const AutoGeneratedMarker = '<!-- Auto Generated Below -->';
+
+const code = (value: string) => value ? `\`${value}\`` : '';
+
+function section(title: string, headers: string[], rows: string[][]) {
+    if (!rows.length) { return []; }
+    return [`## ${title}`, '', ...markdownTable(headers, rows), '', ''];
+}
+
+/**
+ * Markdown README for a component in the layout of Stencil's `docs-readme` output target. The text
+ * of an `existing` README above the auto-generated marker is kept, otherwise the tag and the
+ * component's JSDoc are used as a heading.
+ */
+export function getComponentReadme(reference: ComponentReference, existing?: string): string {
+    const markerIndex = existing ? existing.indexOf(AutoGeneratedMarker) : -1;
+    const userContent = markerIndex > -1
+        ? existing.slice(0, markerIndex).trim()
+        : [`# ${reference.tag || reference.className}`, ...(reference.description ? ['', reference.description] : [])].join('\n');
+
+    return [
+        userContent,
+        '',
+        AutoGeneratedMarker,
+        '',
+        '',
+        ...section('Properties', ['Property', 'Attribute', 'Description', 'Type', 'Default'], reference.props.map(p => [code(p.name), code(p.attribute), p.description, code(p.type), code(p.defaultValue)])),
+        ...section('Events', ['Event', 'Description', 'Type'], reference.events.map(e => [code(e.name), e.description, code(`CustomEvent<${e.detailType}>`)])),
+        ...section('Methods', ['Method', 'Description', 'Signature'], reference.methods.map(m => [code(`${m.name}()`), m.description, code(m.signature)])),
+        ...section('Listeners', ['Event', 'Target', 'Handler', 'Description'], reference.listeners.map(l => [code(l.name), l.target ? code(l.target) : 'host', code(`${l.handler}()`), l.description])),
+        ...section('Watchers', ['Handler', 'Watches', 'Description'], reference.watchers.map(w => [code(`${w.name}()`), w.props.map(code).join(', '), w.description])),
+        ...section('Slots', ['Slot', 'Description'], reference.slots.map(s => [s.name ? code(s.name) : '(default)', s.description])),
+        ...section('Shadow Parts', ['Part', 'Description'], reference.parts.map(p => [code(p.name), p.description])),
+        ...section('CSS Custom Properties', ['Name', 'Description'], reference.customProperties.map(p => [code(p.name), p.description])),
+        '----------------------------------------------',
+        '',
+        '*Built with [StencilJS](https://stenciljs.com/)*',
+        ''
+    ].join('\n');
+}
+
+const withDescription = <T>(entry: T, description: string): T => description ? Object.assign(entry, { description }) : entry;
+
+/**
+ * A [Custom Elements Manifest](https://github.com/webcomponents/custom-elements-manifest) for the
+ * given components with a tag, one module per file. `path` is the module path relative to the manifest.
+ */
+export function getCustomElementsManifest(components: { path: string, reference: ComponentReference }[]) {
+    const elements = components.filter(c => c.reference.tag);
+    const paths = elements.map(c => c.path).filter((path, i, all) => all.indexOf(path) === i);
+    return {
+        schemaVersion: '1.0.0',
+        modules: paths.map((path) => {
+            const references = elements.filter(c => c.path === path).map(c => c.reference);
+            return {
+                kind: 'javascript-module',
+                path,
+                declarations: references.map(reference => withDescription({
+                    kind: 'class',
+                    name: reference.className,
+                    tagName: reference.tag,
+                    customElement: true,
+                    attributes: reference.props.filter(p => p.attribute).map(p => withDescription({
+                        name: p.attribute,
+                        fieldName: p.name,
+                        type: { text: p.type },
+                        ...(p.defaultValue ? { default: p.defaultValue } : {})
+                    }, p.description)),
+                    members: [
+                        ...reference.props.map(p => withDescription({
+                            kind: 'field',
+                            name: p.name,
+                            type: { text: p.type },
+                            ...(p.defaultValue ? { default: p.defaultValue } : {}),
+                            ...(p.attribute ? { attribute: p.attribute } : {}),
+                            ...(p.reflect ? { reflects: true } : {})
+                        }, p.description)),
+                        ...reference.methods.map(m => withDescription({
+                            kind: 'method',
+                            name: m.name,
+                            parameters: m.parameters.map(param => ({ name: param.name, type: { text: param.type } })),
+                            return: { type: { text: m.returnType } }
+                        }, m.description))
+                    ],
+                    events: reference.events.map(e => withDescription({ name: e.name, type: { text: `CustomEvent<${e.detailType}>` } }, e.description)),
+                    slots: reference.slots.map(s => withDescription({ name: s.name }, s.description)),
+                    cssParts: reference.parts.map(p => withDescription({ name: p.name }, p.description)),
+                    cssProperties: reference.customProperties.map(p => withDescription({ name: p.name }, p.description))
+                }, reference.description)),
+                exports: [].concat(...references.map(reference => [
+                    { kind: 'js', name: reference.className, declaration: { name: reference.className, module: path } },
+                    { kind: 'custom-element-definition', name: reference.tag, declaration: { name: reference.className, module: path } }
+                ]))
+            };
+        })
+    };
+}
@@ -0,0 +1,196 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { getBooleanOption, getDecoratorArgument, getDecoratorsNamed, getEventName, getObjectLiteralProperty, hasDecoratorNamed, toName } from './meta';
+import { findNode } from './ts-util/index';
+import { JsxTagElement } from './ts-util/jsx';
+import { checkType, isProbablyAssignable } from './ts-util/type';
+
+export interface ListenTarget {
+    literal: ts.StringLiteral,
+    eventName: string,
+    textSpan: ts.TextSpan
+}
+
+/**
+ * Splits a `@Listen` argument into its event name and the span covering it, ignoring
+ * Stencil 0.x target prefixes such as `body:` or `window:`.
+ */
+export function parseListenTarget(literal: ts.StringLiteral): ListenTarget {
+    const offset = literal.text.lastIndexOf(':') + 1;
+    const eventName = literal.text.slice(offset);
+    return { literal, eventName, textSpan: { start: literal.getStart() + 1 + offset, length: eventName.length } };
+}
+
+function getListenLiteral(decorator: ts.Decorator) {
+    const arg = getDecoratorArgument(decorator);
+    return arg && ts.isStringLiteral(arg) ? arg : undefined;
+}
+
+export interface ListenDetails {
+    eventName: string,
+    /** `window`, `document`, `body` or `parent`; `undefined` when listening on the host element */
+    target: string,
+    passive: boolean,
+    capture: boolean
+}
+
+/** Event and options of a `@Listen` decorator, reading the target from either the 0.x prefix or the `target` option */
+export function getListenDetails(decorator: ts.Decorator): ListenDetails | undefined {
+    const literal = getListenLiteral(decorator);
+    if (!literal) { return undefined; }
+    const options = getDecoratorArgument(decorator, 1);
+    const target = getObjectLiteralProperty(options, 'target');
+    const separator = literal.text.lastIndexOf(':');
+    return {
+        eventName: parseListenTarget(literal).eventName,
+        target: target && ts.isStringLiteral(target) ? target.text : separator > -1 ? literal.text.slice(0, separator) : undefined,
+        passive: getBooleanOption(options, 'passive'),
+        capture: getBooleanOption(options, 'capture')
+    };
+}
+
+/** The `@Listen` argument under the cursor, if any */
+export function getListenTargetAt(sourceFile: ts.SourceFile, position: number): ListenTarget | undefined {
+    const node = findNode(sourceFile, position);
+    if (!node || !ts.isStringLiteral(node) || !ts.isCallExpression(node.parent) || !ts.isDecorator(node.parent.parent)) { return undefined; }
+    const call = node.parent;
+    if (!ts.isIdentifier(call.expression) || call.expression.text !== 'Listen' || call.arguments[0] !== node) { return undefined; }
+    return parseListenTarget(node);
+}
+
+/** Every `@Listen` decorator in the project listening for `eventName`, excluding `node_modules` */
+export function findListenTargets(program: ts.Program, eventName: string): ListenTarget[] {
+    const targets: ListenTarget[] = [];
+    program.getSourceFiles().forEach((sourceFile) => {
+        if (sourceFile.isDeclarationFile || sourceFile.fileName.includes('/node_modules/') || sourceFile.text.indexOf('@Listen') === -1) { return; }
+        function visit(node: ts.Node) {
+            if (ts.isClassDeclaration(node)) {
+                node.members.forEach(member => getDecoratorsNamed(member, 'Listen')
+                    .map(getListenLiteral)
+                    .filter(literal => literal)
+                    .map(parseListenTarget)
+                    .filter(target => target.eventName === eventName)
+                    .forEach(target => targets.push(target)));
+            }
+            ts.forEachChild(node, visit);
+        }
+        visit(sourceFile);
+    });
+    return targets;
+}
+
+/** JSX attribute name Stencil binds to a custom event, e.g. `onValueChange` for `valueChange` */
+export function toEventAttributeName(eventName: string) {
+    return `on${eventName[0].toUpperCase()}${eventName.slice(1)}`;
+}
+
+/** `on<EventName>` attributes for `eventName` on the given elements; spans cover the part after `on` */
+export function findEventAttributes(elements: JsxTagElement[], eventName: string): { attribute: ts.JsxAttribute, textSpan: ts.TextSpan }[] {
+    const attributeName = toEventAttributeName(eventName);
+    const attributes: { attribute: ts.JsxAttribute, textSpan: ts.TextSpan }[] = [];
+    elements.forEach(element => element.attributes.properties.forEach((attr) => {
+        if (ts.isJsxAttribute(attr) && attr.name.text === attributeName) {
+            attributes.push({ attribute: attr, textSpan: { start: attr.name.getStart() + 2, length: eventName.length } });
+        }
+    }));
+    return attributes;
+}
+
+/** The `this.<member>.emit(detail)` call `node` is, with the name of the emitting member */
+export function getEmitCall(node: ts.Node): { call: ts.CallExpression, memberName: string } | undefined {
+    if (!node || !ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression) || node.expression.name.text !== 'emit') { return undefined; }
+    const emitter = node.expression.expression;
+    if (!ts.isPropertyAccessExpression(emitter) || emitter.expression.kind !== ts.SyntaxKind.ThisKeyword) { return undefined; }
+    return { call: node, memberName: emitter.name.text };
+}
+
+/** The innermost `emit()` call whose argument list contains `position` */
+export function getEmitCallAt(sourceFile: ts.SourceFile, position: number) {
+    for (let node = findNode(sourceFile, position); node; node = node.parent) {
+        const found = getEmitCall(node);
+        if (found && position >= found.call.arguments.pos && position <= found.call.arguments.end) { return found; }
+        if (ts.isFunctionLike(node) || ts.isClassLike(node)) { return undefined; }
+    }
+}
+
+/** The detail type `T` of an `@Event()` declared as `EventEmitter<T>`, or the default of a bare `EventEmitter` */
+export function getEmitterDetailType(member: ts.ClassElement, checker: ts.TypeChecker): ts.Type | undefined {
+    const type = ts.isPropertyDeclaration(member) && member.type;
+    if (!type) { return undefined; }
+    if (ts.isTypeReferenceNode(type) && type.typeArguments && type.typeArguments[0]) { return checker.getTypeFromTypeNode(type.typeArguments[0]); }
+    const reference = checker.getTypeFromTypeNode(type) as ts.TypeReference;
+    return reference.typeArguments && reference.typeArguments[0];
+}
+
+/** The detail type of an `@Event()` as resolved by the checker, `any` when it cannot be resolved */
+export function getEmitterDetailTypeText(member: ts.ClassElement, checker: ts.TypeChecker): string {
+    const detailType = getEmitterDetailType(member, checker);
+    return detailType ? checker.typeToString(detailType) : 'any';
+}
+
+/** The `CustomEvent<T>` an `@Event()` dispatches, read from the return type of its emitter's `emit()` */
+export function getDispatchedEventType(member: ts.ClassElement, checker: ts.TypeChecker): ts.Type | undefined {
+    if (!ts.isPropertyDeclaration(member) || !member.type) { return undefined; }
+    const emit = checker.getTypeFromTypeNode(member.type).getProperty('emit');
+    const signature = emit && checker.getTypeOfSymbolAtLocation(emit, member).getCallSignatures()[0];
+    return signature && signature.getReturnType();
+}
+
+/** Whether an event with this detail type may be emitted without an argument */
+export function isOptionalDetail(type: ts.Type) {
+    return checkType(type, t => !!(t.flags & (ts.TypeFlags.Any | ts.TypeFlags.Void | ts.TypeFlags.Undefined)));
+}
+
+export interface EventPayloadProblem {
+    code: 'InvalidEventDetail' | 'IncompatibleEventHandler',
+    node: ts.Node,
+    messageText: string
+}
+
+/**
+ * Checks the payloads of a component's events: the details passed to `this.<event>.emit()` against
+ * the `EventEmitter<T>` type, and the event parameter of its `@Listen` handlers against the
+ * `CustomEvent<T>` of the project events of that name, found through `getEmitters`. Handlers of
+ * events that are not declared in the project, such as DOM events, are not checked.
+ */
+export function getEventPayloadProblems(component: ts.ClassDeclaration, checker: ts.TypeChecker, getEmitters: (eventName: string) => { className: string, member: ts.ClassElement }[]): EventPayloadProblem[] {
+    const problems: EventPayloadProblem[] = [];
+    const events = component.members.filter(member => hasDecoratorNamed(member, 'Event'));
+
+    const visit = (node: ts.Node) => {
+        const emit = getEmitCall(node);
+        const member = emit && events.find(m => toName(m) === emit.memberName);
+        const detailType = member && getEmitterDetailType(member, checker);
+        if (detailType) {
+            const [detail] = emit.call.arguments;
+            const typeText = checker.typeToString(detailType);
+            if (!detail && !isOptionalDetail(detailType)) {
+                problems.push({ code: 'InvalidEventDetail', node: emit.call, messageText: `'${getEventName(member)}' is emitted without a detail, but '${emit.memberName}' is declared as 'EventEmitter<${typeText}>'.` });
+            } else if (detail && !isProbablyAssignable(checker, checker.getTypeAtLocation(detail), detailType)) {
+                const detailText = checker.typeToString(checker.getBaseTypeOfLiteralType(checker.getTypeAtLocation(detail)));
+                problems.push({ code: 'InvalidEventDetail', node: detail, messageText: `Detail of type '${detailText}' is not assignable to '${typeText}', the detail type of '${getEventName(member)}'.` });
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    component.members.forEach(visit);
+
+    component.members.forEach((member) => {
+        const parameter = ts.isMethodDeclaration(member) && member.parameters[0];
+        if (!parameter || !parameter.type) { return; }
+        const parameterType = checker.getTypeFromTypeNode(parameter.type);
+        getDecoratorsNamed(member, 'Listen').map(getListenDetails).filter(listen => listen).forEach(({ eventName }) => {
+            const emitters = getEmitters(eventName)
+                .map(emitter => ({ ...emitter, type: getDispatchedEventType(emitter.member, checker) }))
+                .filter(emitter => emitter.type);
+            if (!emitters.length || emitters.some(emitter => isProbablyAssignable(checker, emitter.type, parameterType))) { return; }
+            const [emitter] = emitters;
+            problems.push({
+                code: 'IncompatibleEventHandler',
+                node: parameter.type,
+                messageText: `@Listen('${eventName}') handler '${toName(member)}' expects '${parameter.type.getText()}', but ${emitter.className}.${toName(emitter.member)} dispatches '${checker.typeToString(emitter.type)}'.`
+            });
+        });
+    });
+
+    return problems;
+}
@@ -0,0 +1,83 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { isComponentClass } from './meta';
+import { findNode, getObjectLiteralAt } from './ts-util/index';
+import { getJsxAttributeNames, getJsxCompletionContext, getJsxTagName, isJsxTagElement, JsxTagElement } from './ts-util/jsx';
+
+/**
+ * Where the cursor is within the host element's data: the `hostData()` return value in Stencil
+ * 0.x or the attributes of `<Host>` in 1.x and newer.
+ *
+ * - `attributes`: a top-level key or `<Host>` attribute
+ * - `class` / `style`: a key of the `class` or `style` object
+ * - `value`: the quoted value of the top-level `attribute`
+ */
+export interface HostCompletionContext {
+    kind: 'attributes' | 'class' | 'style' | 'value',
+    /** Keys or attributes already present, which should not be offered again */
+    present: string[],
+    /** Whether completions are JSX attributes rather than object keys */
+    jsx: boolean,
+    attribute?: string,
+    replacementSpan?: ts.TextSpan
+}
+
+function isHostElement(element: ts.Node): element is JsxTagElement {
+    return isJsxTagElement(element) && getJsxTagName(element) === 'Host';
+}
+
+/** The object literal returned from a component's `hostData()` method */
+function isHostDataObject(node: ts.Node): node is ts.ObjectLiteralExpression {
+    if (!node || !ts.isObjectLiteralExpression(node)) { return false; }
+    let parent = node.parent;
+    while (parent && ts.isParenthesizedExpression(parent)) { parent = parent.parent; }
+    if (!parent || !ts.isReturnStatement(parent)) { return false; }
+
+    let method = parent.parent;
+    while (method && !ts.isFunctionLike(method)) { method = method.parent; }
+    return !!method && ts.isMethodDeclaration(method) && ts.isIdentifier(method.name) && method.name.text === 'hostData' && isComponentClass(method.parent);
+}
+
+function getPropertyName(property: ts.ObjectLiteralElementLike) {
+    return property.name && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) ? property.name.text : undefined;
+}
+
+function getKeys(literal: ts.ObjectLiteralExpression, exclude?: ts.Node) {
+    return literal.properties.filter(p => p !== exclude).map(getPropertyName).filter(name => name);
+}
+
+/** The host attribute a `class`/`style` object or a quoted value belongs to, e.g. the `class` in `class: { }` */
+function getHostAttribute(node: ts.Node): { name: string, host: ts.ObjectLiteralExpression | JsxTagElement } | undefined {
+    const parent = node.parent;
+    if (parent && ts.isPropertyAssignment(parent) && parent.initializer === node && isHostDataObject(parent.parent)) {
+        return { name: getPropertyName(parent), host: parent.parent };
+    }
+    const attribute = parent && ts.isJsxExpression(parent) ? parent.parent : parent;
+    if (attribute && ts.isJsxAttribute(attribute) && isHostElement(attribute.parent.parent)) {
+        return { name: attribute.name.text, host: attribute.parent.parent };
+    }
+}
+
+export function getHostCompletionContext(sourceFile: ts.SourceFile, position: number): HostCompletionContext | undefined {
+    const node = findNode(sourceFile, position);
+    if (node && ts.isStringLiteral(node) && position > node.getStart()) {
+        const owner = getHostAttribute(node);
+        return owner && { kind: 'value', present: [], jsx: isJsxTagElement(owner.host), attribute: owner.name, replacementSpan: { start: node.getStart() + 1, length: node.text.length } };
+    }
+
+    const jsxContext = getJsxCompletionContext(sourceFile, position);
+    if (jsxContext && jsxContext.kind === 'attribute' && isHostElement(jsxContext.element)) {
+        return { kind: 'attributes', present: getJsxAttributeNames(jsxContext.element), jsx: true, replacementSpan: jsxContext.replacementSpan };
+    }
+
+    const found = getObjectLiteralAt(sourceFile, position);
+    if (!found) { return undefined; }
+    const { literal, property, replacementSpan } = found;
+    const present = getKeys(literal, property);
+    if (isHostDataObject(literal)) {
+        return { kind: 'attributes', present, jsx: false, replacementSpan };
+    }
+    const owner = getHostAttribute(literal);
+    if (owner && (owner.name === 'class' || owner.name === 'style')) {
+        return { kind: owner.name, present, jsx: false, replacementSpan };
+    }
+}
@@ -0,0 +1,102 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { StencilConstants } from './constants';
+import { getDecoratorArgument, getDecoratorsNamed, getEventDetails, getPropDetails, hasDecoratorNamed } from './meta';
+import { getListenDetails } from './events';
+import { ComponentReference } from './reference';
+
+const code = (value: any) => `\`${value}\``;
+
+function getPropHover(member: ts.ClassElement, stencil: StencilConstants) {
+    const prop = getPropDetails(member);
+    const lines = ['**@Prop()**', ''];
+    if (prop.connect) { lines.push(`- connects to ${code(prop.connect)}`); }
+    else if (prop.context) { lines.push(`- context ${code(prop.context)}`); }
+    else { lines.push(`- attribute: ${code(prop.attribute)}`); }
+    lines.push(`- mutable: ${code(prop.mutable)}`);
+    lines.push(`- ${stencil.version < 1 ? 'reflectToAttr' : 'reflect'}: ${code(prop.reflect)}`);
+    if (prop.defaultValue) { lines.push(`- default: ${code(prop.defaultValue)}`); }
+    return lines.join('\n');
+}
+
+function getEventHover(member: ts.ClassElement) {
+    const event = getEventDetails(member);
+    return [
+        '**@Event()**',
+        '',
+        `- emits ${code(event.eventName)} with detail ${code(event.detailType)}`,
+        `- bubbles: ${code(event.bubbles)}`,
+        `- composed: ${code(event.composed)}`,
+        `- cancelable: ${code(event.cancelable)}`
+    ].join('\n');
+}
+
+function getMethodHover(stencil: StencilConstants, returnsPromise: boolean) {
+    if (stencil.version < 1) { return '**@Method()**\n\nExposed on the host element.'; }
+    const warning = returnsPromise ? '' : ' **This one does not.**';
+    return `**@Method()**\n\nExposed on the host element. Public methods must be \`async\` or return a \`Promise\`.${warning}`;
+}
+
+function getListenHover(member: ts.ClassElement) {
+    const lines = getDecoratorsNamed(member, 'Listen').map(getListenDetails).filter(x => x).map((listen) => {
+        const flags = [
+            listen.passive !== undefined ? `passive: ${code(listen.passive)}` : '',
+            listen.capture !== undefined ? `capture: ${code(listen.capture)}` : ''
+        ].filter(x => x);
+        return `- ${code(listen.eventName)} on ${listen.target ? code(listen.target) : 'the host element'}${flags.length ? ` (${flags.join(', ')})` : ''}`;
+    });
+    return ['**@Listen()**', '', ...lines].join('\n');
+}
+
+function getWatchHover(member: ts.ClassElement) {
+    const props = getDecoratorsNamed(member, 'Watch')
+        .map(decorator => getDecoratorArgument(decorator))
+        .filter(arg => arg && ts.isStringLiteral(arg))
+        .map((arg: ts.StringLiteral) => code(arg.text));
+    return ['**@Watch()**', '', `Called with \`(newValue, oldValue)\` whenever ${props.join(' or ')} changes.`].join('\n');
+}
+
+/**
+ * Markdown summary of the Stencil decorator on a component member, shown in hovers and completion
+ * details. `returnsPromise` is only used for `@Method()` members.
+ */
+export function getMemberHover(member: ts.ClassElement, stencil: StencilConstants, returnsPromise: boolean = false): string | undefined {
+    if (hasDecoratorNamed(member, 'Prop')) { return getPropHover(member, stencil); }
+    if (hasDecoratorNamed(member, 'Event')) { return getEventHover(member); }
+    if (hasDecoratorNamed(member, 'Method')) { return getMethodHover(stencil, returnsPromise); }
+    if (hasDecoratorNamed(member, 'Listen')) { return getListenHover(member); }
+    if (hasDecoratorNamed(member, 'Watch')) { return getWatchHover(member); }
+}
+
+function cell(value: string) {
+    return (value || '').trim().replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/** Lines of a Markdown table, escaping pipes and line breaks in cells */
+export function markdownTable(headers: string[], rows: string[][]) {
+    return [
+        `| ${headers.join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+    ];
+}
+
+function table(title: string, headers: string[], rows: string[][]) {
+    if (!rows.length) { return []; }
+    return [`**${title}**`, '', ...markdownTable(headers, rows), ''];
+}
+
+/** Markdown reference card for a component tag: its class and file, JSDoc and one table per kind of public API */
+export function getComponentHover(reference: ComponentReference, displayFileName: string): string {
+    const codeOrEmpty = (value: string) => value ? code(value) : '';
+    return [
+        `**${reference.className}** · ${code(displayFileName)}`,
+        '',
+        ...(reference.description ? [reference.description, ''] : []),
+        ...table('Props', ['Property', 'Attribute', 'Type', 'Default', 'Description'], reference.props.map(p => [code(p.name), codeOrEmpty(p.attribute), code(p.type), codeOrEmpty(p.defaultValue), p.description])),
+        ...table('Events', ['Event', 'Detail', 'Description'], reference.events.map(e => [code(e.name), code(e.detailType), e.description])),
+        ...table('Methods', ['Method', 'Signature', 'Description'], reference.methods.map(m => [code(m.name), code(m.signature), m.description])),
+        ...table('Slots', ['Slot', 'Description'], reference.slots.map(s => [s.name ? code(s.name) : '(default)', s.description])),
+        ...table('Shadow Parts', ['Part', 'Description'], reference.parts.map(p => [code(p.name), p.description])),
+        ...table('CSS Custom Properties', ['Property', 'Description'], reference.customProperties.map(p => [code(p.name), p.description]))
+    ].join('\n').trim();
+}
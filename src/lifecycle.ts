@@ -0,0 +1,136 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { StencilConstants } from './constants';
+import { getPropDetails, hasDecoratorNamed, toName } from './meta';
+
+export interface LifecycleProblem {
+    code: 'RenderStateChange' | 'ImmutablePropAssignment' | 'UnawaitedMethodCall',
+    node: ts.Node,
+    messageText: string
+}
+
+const AssignmentOperators = [
+    ts.SyntaxKind.EqualsToken,
+    ts.SyntaxKind.PlusEqualsToken,
+    ts.SyntaxKind.MinusEqualsToken,
+    ts.SyntaxKind.AsteriskEqualsToken,
+    ts.SyntaxKind.AsteriskAsteriskEqualsToken,
+    ts.SyntaxKind.SlashEqualsToken,
+    ts.SyntaxKind.PercentEqualsToken,
+    ts.SyntaxKind.LessThanLessThanEqualsToken,
+    ts.SyntaxKind.GreaterThanGreaterThanEqualsToken,
+    ts.SyntaxKind.GreaterThanGreaterThanGreaterThanEqualsToken,
+    ts.SyntaxKind.AmpersandEqualsToken,
+    ts.SyntaxKind.BarEqualsToken,
+    ts.SyntaxKind.CaretEqualsToken
+];
+
+/** The member name of `this.name` or `this['name']` */
+function getThisMemberName(node: ts.Node): string | undefined {
+    while (node && ts.isParenthesizedExpression(node)) { node = node.expression; }
+    if (!node) { return undefined; }
+    if (ts.isPropertyAccessExpression(node) && node.expression.kind === ts.SyntaxKind.ThisKeyword) { return node.name.text; }
+    if (ts.isElementAccessExpression(node) && node.expression.kind === ts.SyntaxKind.ThisKeyword && node.argumentExpression && ts.isStringLiteral(node.argumentExpression)) {
+        return node.argumentExpression.text;
+    }
+}
+
+/** The member of `this` that `node` assigns to, including `++`/`--` */
+function getAssignedMember(node: ts.Node): string | undefined {
+    if (ts.isBinaryExpression(node) && AssignmentOperators.includes(node.operatorToken.kind)) { return getThisMemberName(node.left); }
+    if ((ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) && (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken)) {
+        return getThisMemberName(node.operand);
+    }
+}
+
+/** The statement containing `node`, which is where its warning points */
+function getStatement(node: ts.Node): ts.Node {
+    let current = node;
+    while (current.parent && !ts.isBlock(current.parent) && !ts.isSourceFile(current.parent) && !ts.isCaseClause(current.parent) && !ts.isDefaultClause(current.parent) && !ts.isFunctionLike(current.parent)) {
+        current = current.parent;
+    }
+    return ts.isFunctionLike(current.parent) ? node : current;
+}
+
+/** Visits `node` and its descendants, not entering nested functions, which run later rather than on the current path */
+function forEachOnPath(node: ts.Node, callback: (node: ts.Node) => void) {
+    callback(node);
+    ts.forEachChild(node, (child) => {
+        if (!ts.isFunctionLike(child) && !ts.isClassLike(child)) { forEachOnPath(child, callback); }
+    });
+}
+
+/** Whether an `if` or conditional between `node` and `method` tests `this.name`, e.g. `if (this.value !== next) { this.value = next; }` */
+function isGuarded(node: ts.Node, method: ts.Node, name: string) {
+    for (let current = node.parent; current && current !== method; current = current.parent) {
+        const condition = ts.isIfStatement(current) || ts.isConditionalExpression(current) ? (ts.isIfStatement(current) ? current.expression : current.condition) : undefined;
+        let found = false;
+        const visit = (n: ts.Node) => { found = found || getThisMemberName(n) === name; ts.forEachChild(n, visit); };
+        if (condition) { visit(condition); }
+        if (found) { return true; }
+    }
+    return false;
+}
+
+/**
+ * Checks a component for state changes on the render path, assignments to props that are not
+ * `mutable` and floating calls to its own `@Method()`s. Assignments during `render()` are followed
+ * into the component's own methods it calls; nested functions such as event handlers are skipped
+ * as they run later.
+ */
+export function getLifecycleProblems(component: ts.ClassDeclaration, stencil: StencilConstants): LifecycleProblem[] {
+    const problems: LifecycleProblem[] = [];
+    const members = component.members.filter(member => toName(member));
+    const watched = members.filter(member => hasDecoratorNamed(member, 'State') || (hasDecoratorNamed(member, 'Prop') && getPropDetails(member).mutable)).map(toName);
+    const immutableProps = members.filter(member => hasDecoratorNamed(member, 'Prop') && !getPropDetails(member).mutable).map(toName);
+    const publicMethods = members.filter(member => hasDecoratorNamed(member, 'Method')).map(toName);
+    const localMethods = members.filter(member => ts.isMethodDeclaration(member) && !member.decorators && member.body) as ts.MethodDeclaration[];
+
+    const renderPath = [...stencil.ComponentBuiltinMethods, 'componentDidUpdate'];
+    members
+        .filter(member => ts.isMethodDeclaration(member) && member.body && renderPath.includes(toName(member)))
+        .forEach((method: ts.MethodDeclaration) => {
+            const phase = `${toName(method)}()`;
+            const visited: ts.Node[] = [method];
+            const check = (body: ts.Node, via: string) => forEachOnPath(body, (node) => {
+                const name = getAssignedMember(node);
+                if (name && watched.includes(name) && !(phase === 'componentDidUpdate()' && isGuarded(node, method, name))) {
+                    problems.push({
+                        code: 'RenderStateChange',
+                        node: getStatement(node),
+                        messageText: `'${name}' is changed during ${phase}${via}, which schedules another render and can cause a render loop.`
+                    });
+                }
+                const called = ts.isCallExpression(node) && getThisMemberName(node.expression);
+                const callee = called && localMethods.find(m => toName(m) === called);
+                if (callee && !visited.includes(callee)) {
+                    visited.push(callee);
+                    check(callee.body, ` (via '${called}()')`);
+                }
+            });
+            check(method.body, '');
+        });
+
+    const visitAll = (node: ts.Node) => {
+        const name = getAssignedMember(node);
+        if (name && immutableProps.includes(name)) {
+            problems.push({
+                code: 'ImmutablePropAssignment',
+                node: getStatement(node),
+                messageText: `@Prop '${name}' is not mutable. Declare it with @Prop({ mutable: true }) or copy it to a @State to change it from within the component.`
+            });
+        }
+
+        const called = stencil.version >= 1 && ts.isCallExpression(node) && getThisMemberName(node.expression);
+        if (called && publicMethods.includes(called) && ts.isExpressionStatement(node.parent)) {
+            problems.push({
+                code: 'UnawaitedMethodCall',
+                node: node.parent,
+                messageText: `@Method '${called}()' returns a Promise. Await it or handle its result.`
+            });
+        }
+        ts.forEachChild(node, visitAll);
+    };
+    members.forEach(visitAll);
+
+    return problems;
+}
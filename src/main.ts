@@ -1,77 +1,38 @@
 import * as ts_module from "typescript/lib/tsserverlibrary";
-import { findNode, findAllNodes } from './ts-util/index';
-import { checkType, isBoolean, isNumber, isString } from './ts-util/type';
+import { findNode, findAllNodes, getObjectLiteralAt } from './ts-util/index';
+import { addNamedImports, getMemberIndentation, getNewLine } from './ts-util/edits';
+import { Stencil, StencilConstants } from './constants';
+import { ComponentMember, ComponentMeta, DocumentMeta, MetaCategory, getDecoratorArgument, getDecoratorsNamed, getEventDetails, getEventName, getInheritedMembers, getPropDetails, getObjectLiteralProperty, hasDecoratorNamed, isComponentClass, toDashCase, toName } from './meta';
+import { ComponentRegistry } from './registry';
+import { getClosestMatch } from './strings';
+import { parseOptions } from './options';
+import { CollectionComponent, getCollectionComponents, getStencilVersion } from './collections';
+import { getClassSelectors, getCssPropertyNames, getCustomProperties, getStyleCompletions, getStyleDiagnostics, getStyleQuickInfo, getStyleRegion, getStyleRegions, StyleRegion } from './css';
+import { getHostCompletionContext } from './host';
+import { getComponentHover, getMemberHover } from './hover';
+import { getComponentReference, getSlotsAndParts } from './reference';
+import { getSlotHost, getSlotProblems } from './slots';
+import { getSpecMarkupAt, getSpecPageProblems } from './spec';
+import { getComponentReadme, getCustomElementsManifest } from './docs';
+import { getLifecycleProblems } from './lifecycle';
+import { groupNavigationBarItems, groupNavigationTree, OutlineComponent } from './outline';
+import { AttributeProblem, AttributeUsage, PropAttribute, getValueCompletions, validateAttributes } from './attributes';
+import { findEventAttributes, findListenTargets, getEmitCallAt, getEmitterDetailType, getEmitterDetailTypeText, getEventPayloadProblems, getListenDetails, getListenTargetAt, isOptionalDetail, toEventAttributeName } from './events';
+import { findJsxElements, findTagLocations, getComponentTagLiteral, getTagAtPosition, isConnectTagLiteral, isContextKeyLiteral } from './tags';
+import { basename, dirname, isWithin, relative, resolve } from './ts-util/path';
+import { getDomMarkupAt, getHtmlAttributeNameContext, getHtmlAttributeValueContext, getHtmlElements, getHtmlTagAt, getHtmlTagCompletionSpan, isStringLike } from './ts-util/html';
+import { getJsxAttributeNames, getJsxCompletionContext, getJsxTagName, hasClosingTag, isJsxTagElement } from './ts-util/jsx';
 // import { doComplete } from 'vscode-emmet-helper';
 
-interface DocumentMeta {
-    className: string,
-    internalProperties: string[],
-    elements: string[],
-    states: string[],
-    propsConnect: string[],
-    propsContext: string[],
-    props: string[],
-    watched: { prop: string, handler: string }[],
-    events: string[],
-    lifecycle: string[],
-    listeners: { events: string[], handler: string }[],
-    methods: string[],
-    internalMethods: string[],
-}
-class StencilConstants {
-    Decorators = [
-        'Prop',
-        'State',
-        'Event',
-        'Method'
-    ]
-    DecoratorDocs = {
-        'Prop': '\n\n[Read More](https://stenciljs.com/docs/decorators/#prop)'
-    }
-    ComponentBuiltinMethods = [
-        'render',
-        'hostData'
-    ]
-    ComponentBuiltinMethodDocs = {
-        'render': '\n\nReturns a tree of components that will be rendered to the DOM at runtime.',
-        'hostData': '\n\nDynamically sets attributes on the host element.'
-    }
-    ComponentLifecycleMethods = [
-        'componentWillLoad',
-        'componentDidLoad',
-        'componentWillUpdate',
-        'componentDidUpdate',
-        'componentDidUnload'
-    ];
-    ComponentLifecycleDocs = {
-        'componentWillLoad': '\n\nThe component is about to load and it has not rendered yet.\n\nThis is the best place to make any data updates before the first render.\n\n`componentWillLoad` will only be called once.',
-        'componentDidLoad': '\n\nThe component has loaded and has already rendered.\n\nUpdating data in this method will cause the component to re-render.\n\n`componentDidLoad` will only be called once.',
-        'componentWillUpdate': '\n\nThe component is about to update and re-render.\n\nCalled multiple times throughout the life of the component as it updates.\n\n`componentWillUpdate` is not called on the first render.',
-        'componentDidUpdate': '\n\nThe component has just re-rendered.\n\nCalled multiple times throughout the life of the component as it updates.\n\n`componentDidUpdate` is not called on the first render.',
-        'componentDidUnload': '\n\nThe component did unload and the element will be destroyed.'
-    }
-
-    PropOptionsExpansion = {
-        'attr': 'string',
-        'context': 'string',
-        'connect': 'string',
-        'mutable': 'boolean',
-        'reflectToAttr': 'boolean'
-    }
-
-    HostDataCompletions = [
-        'class',
-        'style',
-        'slot',
-        'aria-label'
-    ]
-}
-
-function expandTo(name: string, type: 'string' | 'boolean') {
+function expandTo(name: string, type: 'string' | 'boolean' | 'array' | 'object') {
     if (type === 'string') {
         return `${name}: `;
     } else if (type === 'boolean') {
         return `${name}: true`
+    } else if (type === 'array') {
+        return `${name}: []`
+    } else if (type === 'object') {
+        return `${name}: {}`
     }
 }
 
@@ -79,7 +40,13 @@ function capitalizeFirst(value: string) {
     return value[0].toUpperCase() + value.slice(1);
 }
 
-const Stencil = new StencilConstants();
+function toCamelCase(value: string) {
+    return value.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+}
+
+function toPascalCase(value: string) {
+    return value.split('-').filter(x => x).map(capitalizeFirst).join('');
+}
 
 function init(modules: { typescript: typeof ts_module }) {
     const ts = modules.typescript;
@@ -105,9 +72,15 @@ function init(modules: { typescript: typeof ts_module }) {
             getChecker
         }
 
-        // Get a list of things to remove from the completion list from the config object.
-        // If nothing was specified, we'll just remove 'caller'
-        const whatToRemove: string[] = info.config.remove || ["caller"];
+        // Invalid settings fall back to their defaults with a warning in the tsserver log
+        const options = parseOptions(info.config, (message) => {
+            info.project.projectService.logger.info(`[typescript-plugin-stencil] Invalid plugin option: ${message}`);
+        });
+
+        // Decorators, lifecycle methods and options differ between Stencil versions
+        const stencil = new StencilConstants(getStencilVersion(info.serverHost, info.project.getCurrentDirectory()));
+        // Shared by every override below; re-indexes only the files that changed between programs
+        const registry = new ComponentRegistry(() => info.languageService.getProgram(), stencil);
 
         // Diagnostic logging
         info.project.projectService.logger.info(
@@ -129,7 +102,9 @@ function init(modules: { typescript: typeof ts_module }) {
         };
         
         // Override compilerOptions to ensure experimentalDecorators is true
-        info.project.setCompilerOptions(Object.assign({}, info.project.getCompilerOptions(), { "experimentalDecorators": true }))
+        if (options.experimentalDecorators) {
+            info.project.setCompilerOptions(Object.assign({}, info.project.getCompilerOptions(), { "experimentalDecorators": true }))
+        }
         
         function buildStencilDecoratorDisplayParts(kind: string, arg?: string) {
             const argPart = arg ? { kind: 'text', text: arg } : null;
@@ -139,35 +114,13 @@ function init(modules: { typescript: typeof ts_module }) {
             return [{ kind: 'text', text: kind }];
         }
 
-        // cachedMeta: DocumentMeta = {
-            
-        // }
-
-        function hasDecoratorNamed(node: ts.Node, name: string) {
-            if (!Array.isArray(node.decorators)) { return false; }
-            const decorators = node.decorators;
-            return Array.isArray(decorators) && decorators.find(decorator => ts.isCallExpression(decorator.expression) && ts.isIdentifier(decorator.expression.expression) && decorator.expression.expression.text === name);
-        }
-
-        function toName(member: ts.ClassElement) {
-            return member.name && ts.isIdentifier(member.name) && member.name.text;
-        }
-
-        function isComponentClass(node: ts.Node): node is ts.ClassExpression {
-            if (!node || !ts.isClassDeclaration(node)) { return false; }
-            return Array.isArray(node.decorators) && node.decorators.some((dec) => ts.isCallExpression(dec.expression) && ts.isIdentifier(dec.expression.expression) && dec.expression.expression.text === 'Component');
-        }
-
-        type MetaCategory = 'own property' | 'element' | 'state' | 'prop' | 'prop:connect' | 'prop:context' | 'watch' | 'event' | 'lifecycle' | 'listen' | 'method' | 'local method';
         function getSortText(category: MetaCategory, name: string): string {
-            const categories = ['own property', 'element', 'state', 'prop:connect', 'prop:context', 'prop', 'watch', 'event', 'lifecycle', 'listen', 'method', 'local method'];
             const letters = 'abcdefghijklmnopqrstuvwxyz'.split('');
-            const i = categories.indexOf(category);
+            const i = options.sortOrder.indexOf(category);
             let prefix = (i > -1) ? letters[i] : 'z';
 
             if (category === 'lifecycle') {
-                const lifecycles = ['componentWillLoad', 'componentDidLoad', 'componentWillUpdate', 'componentDidUpdate', 'componentDidUnload']
-                prefix += letters[lifecycles.indexOf(name)];
+                prefix += letters[stencil.ComponentLifecycleMethods.indexOf(name)];
             }
             return `${prefix}-${name}`
         }
@@ -187,215 +140,1610 @@ function init(modules: { typescript: typeof ts_module }) {
             if(meta.internalMethods.includes(name)) { return { item: name, category: 'local method' } }
         }
 
-        function gatherDocumentMeta(sourceFile: ts.SourceFile) {
-            const meta: DocumentMeta = {
-                className: null,
-                internalProperties: [],
-                elements: [],
-                states: [],
-                propsConnect: [],
-                propsContext: [],
-                props: [],
-                watched: [],
-                events: [],
-                lifecycle: [],
-                listeners: [],
-                methods: [],
-                internalMethods: []
-            }
-            
-            function visit(node: ts.Node) {
-                if (ts.isClassDeclaration(node) && isComponentClass(node)) {
-                    meta.className = ts.isIdentifier(node.name) && node.name.text;
-                    const undecorated = node.members.filter((member) => !member.decorators);
-                    const decorated = node.members.filter((member) => Array.isArray(member.decorators));
-
-                    undecorated.forEach((member) => {
-                        if (Stencil.ComponentBuiltinMethods.includes(toName(member))) return;
-                        if (Stencil.ComponentLifecycleMethods.includes(toName(member))) {
-                            meta.lifecycle.push(toName((member)));
-                        } else if (ts.isPropertyDeclaration(member)) {
-                            meta.internalProperties.push(toName(member));
-                        } else if (ts.isMethodDeclaration(member)) {
-                            meta.internalMethods.push(toName(member));
+        /** `@Listen()` takes its options after the event name, every other decorator as its only argument */
+        function getDecoratorOptionsIndex(decorator: string) {
+            return decorator === 'Listen' ? 1 : 0;
+        }
+
+        function createDiagnostic(node: ts.Node, code: keyof typeof Stencil.DiagnosticCodes, messageText: string, category: ts.DiagnosticCategory = ts.DiagnosticCategory.Error): ts.Diagnostic {
+            return {
+                file: node.getSourceFile(),
+                start: node.getStart(),
+                length: node.getWidth(),
+                messageText,
+                category,
+                code: Stencil.DiagnosticCodes[code],
+                source: Stencil.DiagnosticSource
+            };
+        }
+
+        /** Stencil's checks of the components in `sourceFile`; payload checks are skipped where `prior` already reports an error */
+        function getStencilDiagnostics(sourceFile: ts.SourceFile, prior: ts.Diagnostic[]): ts.Diagnostic[] {
+            const diagnostics: ts.Diagnostic[] = [];
+            const checker = Helper.getChecker();
+            const hasPriorError = (node: ts.Node) => prior.some(d => d.start !== undefined && d.start < node.getEnd() && node.getStart() < d.start + d.length);
+            const getEmitters = (eventName: string) => [].concat(...registry.getComponents().map(component => component.events
+                .filter(({ node }) => getEventName(node) === eventName)
+                .map(({ node }) => ({ className: component.className, member: node }))));
+
+            const checkDecoratorOptions = (node: ts.Node) => {
+                Object.keys(stencil.DecoratorOptions).forEach((name) => {
+                    const known = Object.keys(stencil.DecoratorOptions[name]);
+                    getDecoratorsNamed(node, name).forEach((decorator) => {
+                        const arg = getDecoratorArgument(decorator, getDecoratorOptionsIndex(name));
+                        if (!arg || !ts.isObjectLiteralExpression(arg)) { return; }
+                        arg.properties.forEach((property) => {
+                            const key = property.name && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) ? property.name.text : undefined;
+                            if (!key || known.includes(key) || (name === 'Prop' && stencil.getDeprecation(key, true))) { return; }
+                            const closest = getClosestMatch(key, known);
+                            diagnostics.push(createDiagnostic(property.name, 'UnknownDecoratorOption', `'${key}' is not an option of @${name}().${closest ? ` Did you mean '${closest}'?` : ''}`, ts.DiagnosticCategory.Warning));
+                        });
+                    });
+                });
+            };
+
+            registry.getComponentsInFile(sourceFile).forEach(({ node: component }) => {
+                const meta = registry.getClassMeta(component);
+                const watchable = [...meta.props, ...meta.propsConnect, ...meta.propsContext, ...meta.states];
+                const className = component.name ? component.name.text : meta.className;
+                checkDecoratorOptions(component);
+                getLifecycleProblems(component, stencil).forEach(({ node, code, messageText }) => {
+                    diagnostics.push(createDiagnostic(node, code, messageText, ts.DiagnosticCategory.Warning));
+                });
+                getEventPayloadProblems(component, checker, getEmitters).filter(({ node }) => !hasPriorError(node)).forEach(({ node, code, messageText }) => {
+                    diagnostics.push(createDiagnostic(node, code, messageText, ts.DiagnosticCategory.Warning));
+                });
+                const isExported = Array.isArray(component.modifiers) && component.modifiers.some(mod => mod.kind === ts.SyntaxKind.ExportKeyword);
+                if (!isExported) {
+                    diagnostics.push(createDiagnostic(component.name || getDecoratorsNamed(component, 'Component')[0], 'UnexportedComponent', `Component class '${className}' must be exported.`));
+                }
+
+                component.members.forEach((member) => {
+                    checkDecoratorOptions(member);
+                    getDecoratorsNamed(member, 'Watch').forEach((decorator) => {
+                        const arg = getDecoratorArgument(decorator);
+                        if (arg && ts.isStringLiteral(arg) && !watchable.includes(arg.text)) {
+                            diagnostics.push(createDiagnostic(arg, 'UnknownWatchTarget', `@Watch('${arg.text}') does not match any @Prop or @State of '${className}'.`));
                         }
-                    })
-                    decorated.forEach((member) => {
-                        if (hasDecoratorNamed(member, 'Element')) { meta.elements.push(toName(member)); }
-                        if (hasDecoratorNamed(member, 'State')) { meta.states.push(toName(member)); }
-                        if (hasDecoratorNamed(member, 'Watch')) {
-                            const decorator = member.decorators.find((dec) => ts.isCallExpression(dec.expression) && ts.isIdentifier(dec.expression.expression) && dec.expression.expression.text === 'Watch');
-                            const prop = ts.isCallExpression(decorator.expression) && ts.isStringLiteral(decorator.expression.arguments[0]) && (decorator.expression.arguments[0] as ts.StringLiteral).text;
-                            meta.watched.push({ prop, handler: toName(member) });
+                    });
+
+                    const listeners = getDecoratorsNamed(member, 'Listen');
+                    if (listeners.length) {
+                        if (!ts.isMethodDeclaration(member)) {
+                            diagnostics.push(createDiagnostic(member.name || member, 'InvalidListenHandler', `@Listen handler '${toName(member)}' must be a method.`));
+                        } else if (member.parameters.filter(param => !param.questionToken && !param.initializer && !param.dotDotDotToken).length > 1) {
+                            diagnostics.push(createDiagnostic(member.name, 'InvalidListenHandler', `@Listen handler '${toName(member)}' should accept a single event argument.`));
                         }
-                        if (hasDecoratorNamed(member, 'Listen')) {
-                            const decorators = member.decorators.filter((dec) => ts.isCallExpression(dec.expression) && ts.isIdentifier(dec.expression.expression) && dec.expression.expression.text === 'Listen');
-                            const events = decorators.map(decorator => ts.isCallExpression(decorator.expression) && ts.isStringLiteral(decorator.expression.arguments[0]) && (decorator.expression.arguments[0] as ts.StringLiteral).text);
-                            meta.listeners.push({ events, handler: toName(member) });
+                    }
+
+                    if (hasDecoratorNamed(member, 'Event')) {
+                        const type = ts.isPropertyDeclaration(member) ? member.type : undefined;
+                        const isEventEmitter = type && ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName) && type.typeName.text === 'EventEmitter';
+                        if (!isEventEmitter) {
+                            diagnostics.push(createDiagnostic(member.name || member, 'UntypedEventEmitter', `@Event '${toName(member)}' must be typed as 'EventEmitter<T>'.`));
+                        } else if (!(type as ts.TypeReferenceNode).typeArguments) {
+                            diagnostics.push(createDiagnostic(type, 'UntypedEventEmitter', `@Event '${toName(member)}' should declare its detail type, e.g. 'EventEmitter<T>'.`, ts.DiagnosticCategory.Warning));
                         }
-                        if (hasDecoratorNamed(member, 'Event')) { meta.events.push(toName(member)); }
-                        if (hasDecoratorNamed(member, 'Method')) { meta.methods.push(toName(member)); }
-                        if (hasDecoratorNamed(member, 'Prop')) { meta.props.push(toName(member)); }
-                    })
-                    info.project.projectService.logger.info(`[test] undecorated "${JSON.stringify(undecorated.map(toName), null, 2)}"`);
-                    info.project.projectService.logger.info(`[test] decorated "${JSON.stringify(decorated.map(toName), null, 2)}"`);
+                    }
+                });
+            });
+
+            return diagnostics;
+        }
+
+        function getStyleDiagnosticsForFile(sourceFile: ts.SourceFile): ts.Diagnostic[] {
+            if (!options.features.styles || !registry.getComponentsInFile(sourceFile).length) { return []; }
+            const diagnostics: ts.Diagnostic[] = [];
+            getStyleRegions(sourceFile).forEach(region => diagnostics.push(...getStyleDiagnostics(region, Stencil.DiagnosticCodes.InvalidStyles, Stencil.DiagnosticSource)));
+            return diagnostics;
+        }
+
+        proxy.getSemanticDiagnostics = (fileName: string) => {
+            const prior = info.languageService.getSemanticDiagnostics(fileName);
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            if (!sourceFile) { return prior; }
 
-                    // meta.props.push(...decorated.filter(hasDecoratorNamed('Prop')).map(toName))
-                    // meta.states.push(...decorated.filter(hasDecoratorNamed('State')).map(toName))
-                    // meta.events.push(...decorated.filter(hasDecoratorNamed('Events')).map(toName));
+            return [...prior, ...(options.features.diagnostics ? [...getStencilDiagnostics(sourceFile, prior), ...getAttributeDiagnostics(sourceFile), ...getSlotDiagnostics(sourceFile), ...getSpecPageDiagnostics(sourceFile)] : []), ...getStyleDiagnosticsForFile(sourceFile)];
+        }
+
+        function getComponentClassAt(node: ts.Node) {
+            let current = node;
+            while (current && !isComponentClass(current)) { current = current.parent; }
+            return current as ts.ClassDeclaration;
+        }
+
+        function getMemberSortText(meta: DocumentMeta, member: ts.ClassElement) {
+            const name = toName(member);
+            if (!name) { return null; }
+            if (stencil.ComponentBuiltinMethods.includes(name)) { return '~'; }
+            const found = getCategory(meta, name);
+            return found ? getSortText(found.category, name) : null;
+        }
+
+        /**
+         * Inserts `text` (one or more lines, without indentation) into `component` at the slot
+         * dictated by the style guide order in `getSortText`.
+         */
+        function insertMember(component: ts.ClassDeclaration, meta: DocumentMeta, sortText: string, lines: string[]): { change: ts.TextChange, nameOffset: number } {
+            const sourceFile = component.getSourceFile();
+            const newLine = getNewLine(sourceFile);
+            const { indent } = getMemberIndentation(component);
+            const text = lines.map(line => line ? indent + line : line).join(newLine);
+
+            const preceding = component.members.filter(member => {
+                const memberSortText = getMemberSortText(meta, member);
+                return memberSortText && memberSortText <= sortText;
+            });
+            const anchor = preceding[preceding.length - 1];
+            if (anchor) {
+                const prefix = `${newLine}${newLine}`;
+                return { change: { span: { start: anchor.getEnd(), length: 0 }, newText: prefix + text }, nameOffset: prefix.length + indent.length };
+            }
+            const first = component.members[0];
+            if (first) {
+                return { change: { span: { start: first.getStart(), length: 0 }, newText: `${text.slice(indent.length)}${newLine}${newLine}${indent}` }, nameOffset: 0 };
+            }
+            return { change: { span: { start: component.members.pos, length: 0 }, newText: `${newLine}${text}${newLine}` }, nameOffset: newLine.length + indent.length };
+        }
+
+        /** `type` is the member type, or the `@Event()` detail type; `string` and `void` when not known */
+        function getDecoratorLine(decorator: string, name: string, type?: string) {
+            return decorator === 'Event' ? `@Event() ${name}: EventEmitter<${type || 'void'}>;` : `@${decorator}() ${name}: ${type || 'string'};`;
+        }
+
+        function getStencilImports(decorator: string) {
+            return decorator === 'Event' ? ['Event', 'EventEmitter'] : [decorator];
+        }
+
+        function buildAddMemberChanges(component: ts.ClassDeclaration, decorator: 'Prop' | 'State' | 'Event', name: string, type?: string) {
+            const sourceFile = component.getSourceFile();
+            const meta = registry.getClassMeta(component);
+            const category: MetaCategory = decorator === 'Prop' ? 'prop' : decorator === 'State' ? 'state' : 'event';
+            const { change, nameOffset } = insertMember(component, meta, getSortText(category, name), [getDecoratorLine(decorator, name, type)]);
+            const importChanges = addNamedImports(sourceFile, '@stencil/core', getStencilImports(decorator));
+            const importLength = importChanges.filter(c => c.span.start <= change.span.start).reduce((total, c) => total + c.newText.length, 0);
+            return {
+                changes: [{ fileName: sourceFile.fileName, textChanges: [...importChanges, change] }],
+                renameLocation: change.span.start + importLength + nameOffset + `@${decorator}() `.length
+            };
+        }
+
+        /** The prop type a JSX attribute's value suggests: `boolean` for a bare attribute, the widened type of an `{expression}` */
+        function getAttributeTypeText(attr: ts.JsxAttribute) {
+            if (!attr.initializer) { return 'boolean'; }
+            const expression = ts.isJsxExpression(attr.initializer) ? attr.initializer.expression : undefined;
+            if (!expression) { return 'string'; }
+            const checker = Helper.getChecker();
+            const type = checker.getBaseTypeOfLiteralType(checker.getTypeAtLocation(expression));
+            return type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Null | ts.TypeFlags.Undefined) ? 'string' : checker.typeToString(type);
+        }
+
+        /** Adds an unknown JSX attribute as a `@Prop()` of the component whose tag it is set on */
+        function getUnknownAttributeFixes(fileName: string, start: number): ts.CodeFixAction[] {
+            const node = Helper.getNode(fileName, start);
+            const attr = node && node.parent;
+            if (!attr || !ts.isJsxAttribute(attr) || attr.name !== node) { return []; }
+            const component = registry.getComponentByTag(getJsxTagName(attr.parent.parent));
+            if (!component || !component.className) { return []; }
+            const name = attr.name.text;
+            const { changes } = buildAddMemberChanges(component.node, 'Prop', name, getAttributeTypeText(attr));
+            return [{ fixName: Stencil.CodeFixes.AddProp, description: `Add @Prop() '${name}' to '${component.className}'`, changes }];
+        }
+
+        proxy.getCodeFixesAtPosition = (fileName: string, start: number, end: number, errorCodes: ReadonlyArray<number>, formatOptions: ts.FormatCodeSettings, preferences: ts.UserPreferences) => {
+            if (!options.features.codeFixes) { return info.languageService.getCodeFixesAtPosition(fileName, start, end, errorCodes, formatOptions, preferences); }
+            const prior = info.languageService.getCodeFixesAtPosition(fileName, start, end, errorCodes, formatOptions, preferences);
+            if (errorCodes.includes(Stencil.DiagnosticCodes.UnknownAttribute)) { return [...prior, ...getUnknownAttributeFixes(fileName, start)]; }
+            if (!errorCodes.includes(Stencil.DiagnosticCodes.UnknownWatchTarget)) { return prior; }
+
+            const node = Helper.getNode(fileName, start);
+            const component = node && getComponentClassAt(node);
+            if (!component || !ts.isStringLiteral(node) || !ts.isCallExpression(node.parent) || !ts.isDecorator(node.parent.parent)) { return prior; }
+
+            const meta = registry.getClassMeta(component);
+            const name = node.text;
+            const fixes: ts.CodeFixAction[] = [];
+
+            fixes.push({ fixName: Stencil.CodeFixes.AddProp, description: `Add @Prop() '${name}'`, changes: buildAddMemberChanges(component, 'Prop', name).changes });
+            fixes.push({ fixName: Stencil.CodeFixes.AddState, description: `Add @State() '${name}'`, changes: buildAddMemberChanges(component, 'State', name).changes });
+
+            const closest = getClosestMatch(name, [...meta.props, ...meta.propsConnect, ...meta.propsContext, ...meta.states]);
+            if (closest) {
+                fixes.push({
+                    fixName: Stencil.CodeFixes.ChangeWatchTarget,
+                    description: `Change to '${closest}'`,
+                    changes: [{ fileName, textChanges: [{ span: { start: node.getStart() + 1, length: name.length }, newText: closest }] }]
+                });
+            }
+
+            return [...prior, ...fixes];
+        }
+
+        function getRefactorTarget(fileName: string, positionOrRange: number | ts.TextRange) {
+            const position = typeof positionOrRange === 'number' ? positionOrRange : positionOrRange.pos;
+            const node = Helper.getNode(fileName, position);
+            if (!node) { return null; }
+
+            let member: ts.ClassElement;
+            let current = node;
+            while (current && !isComponentClass(current)) {
+                if (ts.isBlock(current)) { return null; }
+                if (ts.isClassElement(current)) { member = current; }
+                current = current.parent;
+            }
+            if (!current) { return null; }
+            return { component: current as ts.ClassDeclaration, member };
+        }
+
+        proxy.getApplicableRefactors = (fileName: string, positionOrRange: number | ts.TextRange, preferences: ts.UserPreferences) => {
+            if (!options.features.refactors) { return info.languageService.getApplicableRefactors(fileName, positionOrRange, preferences); }
+            const prior = info.languageService.getApplicableRefactors(fileName, positionOrRange, preferences);
+            const target = getRefactorTarget(fileName, positionOrRange);
+            if (!target) { return prior; }
+
+            const { component, member } = target;
+            const refactors: ts.ApplicableRefactorInfo[] = [];
+
+            if (member && ts.isPropertyDeclaration(member) && !member.decorators && toName(member)) {
+                refactors.push({
+                    name: Stencil.Refactors.DecorateMember,
+                    description: 'Convert to Stencil member',
+                    actions: [
+                        { name: 'Prop', description: `Convert '${toName(member)}' to @Prop()` },
+                        { name: 'State', description: `Convert '${toName(member)}' to @State()` }
+                    ]
+                });
+            }
+
+            refactors.push({
+                name: Stencil.Refactors.AddEvent,
+                description: 'Add @Event() emitter',
+                actions: [{ name: 'Event', description: 'Add @Event() emitter' }]
+            });
+
+            const existing = component.members.map(toName);
+            const missingLifecycle = stencil.ComponentLifecycleMethods.filter(name => !existing.includes(name) && !stencil.getDeprecation(name));
+            if (missingLifecycle.length) {
+                refactors.push({
+                    name: Stencil.Refactors.AddLifecycle,
+                    description: 'Add lifecycle method',
+                    inlineable: false,
+                    actions: missingLifecycle.map(name => ({ name, description: `Add '${name}'` }))
+                });
+            }
+
+            const tagLiteral = getComponentTagLiteral(component);
+            if (!member && component.name && tagLiteral) {
+                const actions: ts.RefactorActionInfo[] = [];
+                if (toDashCase(component.name.text) !== tagLiteral.text) {
+                    actions.push({ name: 'tag', description: `Rename tag to '${toDashCase(component.name.text)}'` });
+                }
+                if (toPascalCase(tagLiteral.text) !== component.name.text) {
+                    actions.push({ name: 'class', description: `Rename class to '${toPascalCase(tagLiteral.text)}'` });
+                }
+                if (actions.length) {
+                    refactors.push({ name: Stencil.Refactors.SyncComponentName, description: 'Sync component class and tag', actions });
                 }
-                node.forEachChild(visit);
             }
-            visit(sourceFile);
-            return meta;
+
+            if (!member) {
+                refactors.push({
+                    name: Stencil.Refactors.GenerateDocs,
+                    description: 'Generate component docs',
+                    inlineable: false,
+                    actions: [
+                        { name: 'readme', description: `Generate readme.md for '${component.name ? component.name.text : 'component'}'` },
+                        { name: 'manifest', description: 'Generate custom-elements.json for the project' }
+                    ]
+                });
+            }
+
+            return [...prior, ...refactors];
         }
 
-        proxy.findReferences = (fileName: string, position: number) => {
+        proxy.getEditsForRefactor = (fileName: string, formatOptions: ts.FormatCodeSettings, positionOrRange: number | ts.TextRange, refactorName: string, actionName: string, preferences: ts.UserPreferences) => {
+            if (!options.features.refactors) { return info.languageService.getEditsForRefactor(fileName, formatOptions, positionOrRange, refactorName, actionName, preferences); }
+            const target = getRefactorTarget(fileName, positionOrRange);
+            if (!target || !Object.keys(Stencil.Refactors).some(key => Stencil.Refactors[key] === refactorName)) {
+                return info.languageService.getEditsForRefactor(fileName, formatOptions, positionOrRange, refactorName, actionName, preferences);
+            }
+
+            const { component, member } = target;
+            const sourceFile = component.getSourceFile();
+
+            switch (refactorName) {
+                case Stencil.Refactors.DecorateMember: {
+                    const changes = [
+                        ...addNamedImports(sourceFile, '@stencil/core', [actionName]),
+                        { span: { start: member.getStart(), length: 0 }, newText: `@${actionName}() ` }
+                    ];
+                    return { edits: [{ fileName, textChanges: changes }], renameFilename: undefined, renameLocation: undefined };
+                }
+                case Stencil.Refactors.AddEvent: {
+                    const existing = component.members.map(toName);
+                    let name = 'newEvent';
+                    for (let i = 1; existing.includes(name); i++) { name = `newEvent${i}`; }
+                    const { changes, renameLocation } = buildAddMemberChanges(component, 'Event', name);
+                    return { edits: changes, renameFilename: fileName, renameLocation };
+                }
+                case Stencil.Refactors.AddLifecycle: {
+                    const meta = registry.getClassMeta(component);
+                    const { change } = insertMember(component, meta, getSortText('lifecycle', actionName), [`${actionName}() {`, '}']);
+                    return { edits: [{ fileName, textChanges: [change] }], renameFilename: undefined, renameLocation: undefined };
+                }
+                case Stencil.Refactors.SyncComponentName: {
+                    const tagLiteral = getComponentTagLiteral(component);
+                    if (actionName === 'tag') {
+                        const tag = toDashCase(component.name.text);
+                        return { edits: groupTextChanges(getComponentRenameChanges(component, tagLiteral.text, tag)), renameFilename: undefined, renameLocation: undefined };
+                    }
+                    const locations = info.languageService.findRenameLocations(fileName, component.name.getStart(), false, false) || [];
+                    return { edits: toFileTextChanges(locations, toPascalCase(tagLiteral.text)), renameFilename: undefined, renameLocation: undefined };
+                }
+                case Stencil.Refactors.GenerateDocs: {
+                    const checker = Helper.getChecker();
+                    const projectDir = info.project.getCurrentDirectory();
+                    if (actionName === 'readme') {
+                        const meta = registry.getComponentsInFile(sourceFile).find(c => c.node === component);
+                        if (!meta) { return undefined; }
+                        const readmeFileName = resolve(dirname(fileName), 'readme.md');
+                        const existing = info.serverHost.fileExists(readmeFileName) ? info.serverHost.readFile(readmeFileName) : undefined;
+                        const readme = getComponentReadme(getComponentReference(meta, checker, getComponentStyleTexts(meta)), existing);
+                        return { edits: [replaceFileText(readmeFileName, existing, readme)], renameFilename: undefined, renameLocation: undefined };
+                    }
+                    const components = registry.getComponents().map(c => ({
+                        path: relative(projectDir, c.fileName).replace(/^\.\//, ''),
+                        reference: getComponentReference(c, checker, getComponentStyleTexts(c))
+                    }));
+                    const manifestFileName = resolve(projectDir, 'custom-elements.json');
+                    const existing = info.serverHost.fileExists(manifestFileName) ? info.serverHost.readFile(manifestFileName) : undefined;
+                    const manifest = `${JSON.stringify(getCustomElementsManifest(components), null, 2)}\n`;
+                    return { edits: [replaceFileText(manifestFileName, existing, manifest)], renameFilename: undefined, renameLocation: undefined };
+                }
+            }
+        }
+
+        /** Writes `text` as the whole content of a file, creating it when there is no `existing` content */
+        function replaceFileText(fileName: string, existing: string | undefined, text: string): ts.FileTextChanges {
+            return existing === undefined
+                ? { fileName, textChanges: [{ span: { start: 0, length: 0 }, newText: text }], isNewFile: true }
+                : { fileName, textChanges: [{ span: { start: 0, length: existing.length }, newText: text }] };
+        }
+
+        /** Component classes of a file with their members in outline order: by group, then as completions are sorted */
+        function getOutlineComponents(sourceFile: ts.SourceFile): OutlineComponent[] {
+            return registry.getComponentsInFile(sourceFile).map((component) => {
+                const meta = registry.getClassMeta(component.node);
+                const members = component.node.members.map((node, index) => {
+                    const name = toName(node);
+                    const found = name && !stencil.ComponentBuiltinMethods.includes(name) ? getCategory(meta, name) : undefined;
+                    const groupIndex = found ? Stencil.OutlineGroups.findIndex(group => group.categories.includes(found.category)) : -1;
+                    return {
+                        node,
+                        index,
+                        groupIndex: groupIndex > -1 ? groupIndex : Stencil.OutlineGroups.length,
+                        group: groupIndex > -1 ? Stencil.OutlineGroups[groupIndex].label : undefined,
+                        sortText: found ? getSortText(found.category, name) : ''
+                    };
+                });
+                members.sort((a, b) => a.groupIndex - b.groupIndex || (a.sortText < b.sortText ? -1 : a.sortText > b.sortText ? 1 : a.index - b.index));
+                return { node: component.node, tag: component.tag, members };
+            });
+        }
+
+        proxy.getNavigationTree = (fileName: string) => {
+            const prior = info.languageService.getNavigationTree(fileName);
             const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
-            const meta = gatherDocumentMeta(sourceFile);
+            if (!options.features.navigation || !sourceFile) { return prior; }
+            return groupNavigationTree(prior, getOutlineComponents(sourceFile));
+        }
+
+        proxy.getNavigationBarItems = (fileName: string) => {
+            const prior = info.languageService.getNavigationBarItems(fileName);
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            if (!options.features.navigation || !sourceFile) { return prior; }
+            return groupNavigationBarItems(prior, getOutlineComponents(sourceFile));
+        }
+
+        function groupTextChanges(edits: { fileName: string, change: ts.TextChange }[]): ts.FileTextChanges[] {
+            const changes: ts.FileTextChanges[] = [];
+            edits.forEach(({ fileName, change }) => {
+                let fileChanges = changes.find(c => c.fileName === fileName);
+                if (!fileChanges) {
+                    fileChanges = { fileName, textChanges: [] };
+                    changes.push(fileChanges);
+                }
+                fileChanges.textChanges.push(change);
+            });
+            return changes;
+        }
+
+        function toFileTextChanges(locations: { fileName: string, textSpan: ts.TextSpan }[], newText: string): ts.FileTextChanges[] {
+            return groupTextChanges(locations.map(({ fileName, textSpan }) => ({ fileName, change: { span: textSpan, newText } })));
+        }
+
+        /**
+         * Declarations Stencil generates in `components.d.ts` with names derived from `tag`: the
+         * `HTML<Name>Element` interface and variable and the `<Name>` interfaces of its `Components`
+         * and `LocalJSX` namespaces. Files under `node_modules` are skipped.
+         */
+        function findGeneratedDeclarations(tag: string): (ts.InterfaceDeclaration | ts.VariableDeclaration)[] {
+            const name = toPascalCase(tag);
+            const elementName = `HTML${name}Element`;
+            const found: (ts.InterfaceDeclaration | ts.VariableDeclaration)[] = [];
+            info.languageService.getProgram().getSourceFiles().forEach((sourceFile) => {
+                if (sourceFile.fileName.includes('/node_modules/') || sourceFile.text.indexOf(elementName) === -1) { return; }
+                const visit = (node: ts.Node) => {
+                    if (ts.isInterfaceDeclaration(node) && (node.name.text === elementName || (node.name.text === name && ts.isModuleBlock(node.parent)))) {
+                        found.push(node);
+                    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === elementName) {
+                        found.push(node);
+                    }
+                    ts.forEachChild(node, visit);
+                };
+                visit(sourceFile);
+            });
+            return found;
+        }
+
+        /**
+         * Renames a component in one edit: `tag` wherever it is spelled out, the declarations Stencil
+         * generates from it in `components.d.ts` and, when it is named after its tag, the class.
+         */
+        function getComponentRenameChanges(component: ts.ClassDeclaration, tag: string, newTag: string): { fileName: string, change: ts.TextChange }[] {
+            const rename = (declaration: ts.NamedDeclaration, newText: string) => (info.languageService.findRenameLocations(declaration.getSourceFile().fileName, declaration.name.getStart(), false, false) || [])
+                .map(location => ({ fileName: location.fileName, change: { span: location.textSpan, newText } }));
+            const edits = findTagLocations(info.languageService.getProgram(), tag).map(location => ({ fileName: location.fileName, change: { span: location.textSpan, newText: newTag } }));
+            findGeneratedDeclarations(tag).forEach(declaration => edits.push(...rename(declaration, declaration.name.getText().replace(toPascalCase(tag), toPascalCase(newTag)))));
+            if (component.name && component.name.text === toPascalCase(tag)) {
+                edits.push(...rename(component, toPascalCase(newTag)));
+            }
+            return edits.filter((edit, i) => edits.findIndex(other => other.fileName === edit.fileName && other.change.span.start === edit.change.span.start) === i);
+        }
+
+        /** A component tag under the cursor that can be renamed: in a `@Component`, JSX, a DOM API string or HTML markup */
+        function getRenameableTagAt(fileName: string, position: number) {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const tag = sourceFile && (getTagAtPosition(sourceFile, position) || getHtmlTagAt(sourceFile, position));
+            return tag && registry.getComponentByTag(tag.tag) ? tag : undefined;
+        }
+
+        proxy.getRenameInfo = (fileName: string, position: number) => {
+            if (!options.features.navigation) { return info.languageService.getRenameInfo(fileName, position); }
+            const tag = getRenameableTagAt(fileName, position);
+            if (tag) {
+                return {
+                    canRename: true,
+                    localizedErrorMessage: undefined,
+                    displayName: tag.tag,
+                    fullDisplayName: tag.tag,
+                    kind: ts.ScriptElementKind.classElement,
+                    kindModifiers: '',
+                    triggerSpan: tag.textSpan
+                };
+            }
+            const eventReference = getEventReferenceAt(fileName, position);
+            if (eventReference && eventReference.events.length === 1) {
+                const { component, member } = eventReference.events[0];
+                const eventName = getEventName(member.node);
+                return {
+                    canRename: eventName === member.name,
+                    localizedErrorMessage: eventName === member.name ? undefined : `Rename the 'eventName' option of '${component.className}.${member.name}' instead.`,
+                    displayName: eventName,
+                    fullDisplayName: `${component.className}.${member.name}`,
+                    kind: ts.ScriptElementKind.memberVariableElement,
+                    kindModifiers: '',
+                    triggerSpan: eventReference.textSpan
+                };
+            }
+            return info.languageService.getRenameInfo(fileName, position);
+        }
+
+        /** Keeps `styleUrl(s)` pointing at the right files when component or style files move */
+        proxy.getEditsForFileRename = (oldFilePath: string, newFilePath: string, formatOptions: ts.FormatCodeSettings, preferences: ts.UserPreferences) => {
+            if (!options.features.navigation) { return info.languageService.getEditsForFileRename(oldFilePath, newFilePath, formatOptions, preferences); }
+            const prior = info.languageService.getEditsForFileRename(oldFilePath, newFilePath, formatOptions, preferences);
+            const moved = (path: string) => isWithin(path, oldFilePath) ? newFilePath + path.slice(oldFilePath.length) : path;
+            const edits: { fileName: string, change: ts.TextChange }[] = [];
+
+            registry.getComponents().forEach((component) => {
+                const oldDir = dirname(component.fileName);
+                const newDir = dirname(moved(component.fileName));
+                const componentOptions = getDecoratorArgument(getDecoratorsNamed(component.node, 'Component')[0]);
+                const literals: (ts.StringLiteral | ts.NoSubstitutionTemplateLiteral)[] = [];
+                // `styleUrl: 'a.css'`, `styleUrls: ['a.css']` and per-mode `styleUrls: { ios: 'a.css', md: ['b.css'] }`
+                const addLiterals = (value: ts.Node) => {
+                    if (!value) { return; }
+                    if (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value)) { literals.push(value); }
+                    else if (ts.isArrayLiteralExpression(value)) { value.elements.forEach(addLiterals); }
+                    else if (ts.isObjectLiteralExpression(value)) { value.properties.filter(ts.isPropertyAssignment).forEach(prop => addLiterals(prop.initializer)); }
+                };
+                addLiterals(getObjectLiteralProperty(componentOptions, 'styleUrl'));
+                addLiterals(getObjectLiteralProperty(componentOptions, 'styleUrls'));
+
+                literals.forEach((literal) => {
+                    const stylePath = resolve(oldDir, literal.text);
+                    const newStylePath = moved(stylePath);
+                    if (stylePath === newStylePath && oldDir === newDir) { return; }
+                    let url = relative(newDir, newStylePath);
+                    if (!literal.text.startsWith('.')) { url = url.replace(/^\.\//, ''); }
+                    if (url !== literal.text) {
+                        edits.push({ fileName: component.fileName, change: { span: { start: literal.getStart() + 1, length: literal.text.length }, newText: url } });
+                    }
+                });
+            });
+
+            // A component file named after its tag, e.g. `my-card.tsx` renamed to `my-panel.tsx`, renames the component with it
+            const oldName = basename(oldFilePath).replace(/\.tsx?$/, '');
+            const newName = basename(newFilePath).replace(/\.tsx?$/, '');
+            const renamed = registry.getComponents().find(component => component.fileName === oldFilePath && component.tag === oldName);
+            if (renamed && newName !== oldName && /^[a-z][a-z0-9]*(-[a-z0-9]+)+$/.test(newName)) {
+                edits.push(...getComponentRenameChanges(renamed.node, renamed.tag, newName));
+            }
+
+            // TypeScript's own import updates go first, merged with ours so each file is listed once
+            const priorEdits: { fileName: string, change: ts.TextChange }[] = [].concat(...prior.map(({ fileName, textChanges }) => textChanges.map(change => ({ fileName, change }))));
+            return groupTextChanges([...priorEdits, ...edits]);
+        }
+
+        interface MemberLocation {
+            fileName: string,
+            textSpan: ts.TextSpan,
+            isWriteAccess?: boolean
+        }
+
+        /** Resolves the Stencil component member declared or referenced at `position` through the checker */
+        function getComponentMemberAt(fileName: string, position: number) {
             const node = Helper.getNode(fileName, position);
-            let text;
-            if (ts.isIdentifier(node)) text = node.text;
-            else if (ts.isPropertyDeclaration(node) && ts.isIdentifier(node.name)) text = node.name.text;
+            if (!node || !ts.isIdentifier(node)) { return undefined; }
+            const symbol = Helper.getChecker().getSymbolAtLocation(node);
+            const declaration = symbol && symbol.valueDeclaration;
+            if (!declaration || !ts.isClassElement(declaration) || !isComponentClass(declaration.parent)) { return undefined; }
+            return { name: symbol.name, member: declaration, component: declaration.parent };
+        }
 
-            const prior = info.languageService.findReferences(fileName, position);
-            
-            if (meta.watched.some(w => w.prop === text)) {
-                let found: number;
-                found = sourceFile.getText().indexOf(`"${text}"`);
-                if (!(found > -1)) found = sourceFile.getText().indexOf(`'${text}'`);
-
-                if (found > -1) {
-                    prior.push({
-                        definition: prior[0].definition,
-                        references: [{
-                            textSpan: { start: found + 1, length: text.length },
-                            fileName: fileName,
-                            isDefinition: false,
-                            isWriteAccess: true,
-                            isInString: true
-                        }]
-                    })
+        function getStringLocation(node: ts.Node): MemberLocation {
+            return { fileName: node.getSourceFile().fileName, textSpan: { start: node.getStart() + 1, length: node.getWidth() - 2 } };
+        }
+
+        /**
+         * Locations that refer to a component member by name without the compiler knowing about it:
+         * `@Watch` arguments in the owning component, JSX attributes on its tag and, for events,
+         * `@Listen` arguments and `on<EventName>` attributes across the project. When renaming, event
+         * locations are only included if the event name follows the member name.
+         */
+        function getMemberStringLocations(name: string, member: ts.ClassElement, component: ts.ClassDeclaration, forRename: boolean = false): MemberLocation[] {
+            const program = info.languageService.getProgram();
+            const tagLiteral = getComponentTagLiteral(component);
+            const locations: MemberLocation[] = [];
+            component.members.forEach((other) => {
+                getDecoratorsNamed(other, 'Watch').forEach((decorator) => {
+                    const arg = getDecoratorArgument(decorator);
+                    if (arg && ts.isStringLiteral(arg) && arg.text === name) {
+                        locations.push(getStringLocation(arg));
+                    }
+                });
+            });
+
+            if (hasDecoratorNamed(member, 'Prop') && tagLiteral) {
+                findJsxElements(program, tagLiteral.text).forEach((element) => {
+                    element.attributes.properties
+                        .filter(attr => ts.isJsxAttribute(attr) && attr.name.text === name)
+                        .forEach(attr => locations.push({
+                            fileName: attr.getSourceFile().fileName,
+                            textSpan: { start: (attr as ts.JsxAttribute).name.getStart(), length: name.length },
+                            isWriteAccess: true
+                        }));
+                });
+            }
+
+            const eventName = hasDecoratorNamed(member, 'Event') && getEventName(member);
+            if (eventName && (!forRename || eventName === name)) {
+                findListenTargets(program, eventName).forEach(target => locations.push({ fileName: target.literal.getSourceFile().fileName, textSpan: target.textSpan }));
+                // Renames replace the part after `on` verbatim; Stencil lower-cases that first letter when binding anyway
+                if (tagLiteral) {
+                    findEventAttributes(findJsxElements(program, tagLiteral.text), eventName)
+                        .forEach(({ attribute, textSpan }) => locations.push({ fileName: attribute.getSourceFile().fileName, textSpan }));
                 }
             }
+            return locations;
+        }
 
-            return prior;
+        /**
+         * Resolves the `@Event` members a `@Listen('eventName')` argument or an `on<EventName>` JSX
+         * attribute on a known component tag refers to.
+         */
+        function getEventReferenceAt(fileName: string, position: number): { events: { component: ComponentMeta, member: ComponentMember }[], textSpan: ts.TextSpan } | undefined {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const listen = sourceFile && getListenTargetAt(sourceFile, position);
+            if (listen) {
+                const events: { component: ComponentMeta, member: ComponentMember }[] = [];
+                registry.getComponents().forEach(component => component.events
+                    .filter(member => getEventName(member.node) === listen.eventName)
+                    .forEach(member => events.push({ component, member })));
+                return { events, textSpan: listen.textSpan };
+            }
+
+            const node = Helper.getNode(fileName, position);
+            const attribute = node && ts.isIdentifier(node) && ts.isJsxAttribute(node.parent) && node.parent.name === node ? node.parent : undefined;
+            const element = attribute && attribute.parent.parent;
+            const component = element && isJsxTagElement(element) && registry.getComponentByTag(getJsxTagName(element));
+            if (component) {
+                const events = component.events
+                    .filter(member => toEventAttributeName(getEventName(member.node)) === attribute.name.text)
+                    .map(member => ({ component, member }));
+                if (events.length) {
+                    return { events, textSpan: { start: attribute.name.getStart() + 2, length: attribute.name.text.length - 2 } };
+                }
+            }
         }
-        
-        proxy.findRenameLocations = (fileName: string, position: number, findInStrings: boolean, findInComments: boolean) => {
+
+        function toDefinitionInfo({ component, member }: { component: ComponentMeta, member: ComponentMember }): ts.DefinitionInfo {
+            return {
+                fileName: component.fileName,
+                textSpan: { start: member.node.name.getStart(), length: member.node.name.getWidth() },
+                kind: ts.ScriptElementKind.memberVariableElement,
+                name: member.name,
+                containerKind: ts.ScriptElementKind.classElement,
+                containerName: component.className
+            };
+        }
+
+        function toComponentDefinitionInfo(component: ComponentMeta): ts.DefinitionInfo {
+            const name = component.node.name || component.node;
+            return {
+                fileName: component.fileName,
+                textSpan: { start: name.getStart(), length: name.getWidth() },
+                kind: ts.ScriptElementKind.classElement,
+                name: component.className,
+                containerKind: ts.ScriptElementKind.moduleElement,
+                containerName: ''
+            };
+        }
+
+        /** The component whose tag is under the cursor: in JSX, HTML or DOM API strings, or a `@Prop({ connect })` */
+        function getTagComponentAt(fileName: string, position: number): { component: ComponentMeta, textSpan: ts.TextSpan } | undefined {
             const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
-            const meta = gatherDocumentMeta(sourceFile);
+            const found = sourceFile && (getTagAtPosition(sourceFile, position) || getHtmlTagAt(sourceFile, position));
+            const component = found && registry.getComponentByTag(found.tag);
+            return component && { component, textSpan: found.textSpan };
+        }
+
+        /** The prop set by the attribute name under the cursor on a component tag in HTML markup inside a string */
+        function getHtmlPropAt(fileName: string, position: number): { component: ComponentMeta, member: ComponentMember, textSpan: ts.TextSpan } | undefined {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const node = sourceFile && findNode(sourceFile, position);
+            if (!isStringLike(node)) { return undefined; }
+            let found: { component: ComponentMeta, member: ComponentMember, textSpan: ts.TextSpan };
+            getHtmlElements(node).forEach((element) => {
+                const attribute = element.attributes.find(attr => position >= attr.textSpan.start && position <= attr.textSpan.start + attr.textSpan.length);
+                const component = attribute && registry.getComponentByTag(element.tag);
+                const member = component && component.props.find(prop => getPropDetails(prop.node).attribute === attribute.name.toLowerCase());
+                if (member) { found = { component, member, textSpan: attribute.textSpan }; }
+            });
+            return found;
+        }
+
+        proxy.getDefinitionAtPosition = (fileName: string, position: number) => {
+            if (!options.features.navigation) { return info.languageService.getDefinitionAtPosition(fileName, position); }
+            const reference = getEventReferenceAt(fileName, position);
+            if (reference && reference.events.length) { return reference.events.map(toDefinitionInfo); }
+            const tagComponent = getTagComponentAt(fileName, position);
+            if (tagComponent) { return [toComponentDefinitionInfo(tagComponent.component)]; }
+            const htmlProp = getHtmlPropAt(fileName, position);
+            if (htmlProp) { return [toDefinitionInfo(htmlProp)]; }
+            return info.languageService.getDefinitionAtPosition(fileName, position);
+        }
+
+        proxy.getDefinitionAndBoundSpan = (fileName: string, position: number) => {
+            if (!options.features.navigation) { return info.languageService.getDefinitionAndBoundSpan(fileName, position); }
+            const reference = getEventReferenceAt(fileName, position);
+            if (reference && reference.events.length) { return { definitions: reference.events.map(toDefinitionInfo), textSpan: reference.textSpan }; }
+            const tagComponent = getTagComponentAt(fileName, position);
+            if (tagComponent) { return { definitions: [toComponentDefinitionInfo(tagComponent.component)], textSpan: tagComponent.textSpan }; }
+            const htmlProp = getHtmlPropAt(fileName, position);
+            if (htmlProp) { return { definitions: [toDefinitionInfo(htmlProp)], textSpan: htmlProp.textSpan }; }
+            return info.languageService.getDefinitionAndBoundSpan(fileName, position);
+        }
+
+        /** Parts of `@Watch` handler names that spell out the watched member, e.g. `first` in `firstChanged` */
+        function getWatchHandlerLocations(fileName: string, name: string, component: ts.ClassDeclaration): MemberLocation[] {
+            const locations: MemberLocation[] = [];
+            component.members
+                .filter(member => getDecoratorsNamed(member, 'Watch').some(decorator => {
+                    const arg = getDecoratorArgument(decorator);
+                    return arg && ts.isStringLiteral(arg) && arg.text === name;
+                }))
+                .filter(member => member.name && toName(member).includes(name))
+                .forEach((member) => {
+                    const offset = toName(member).indexOf(name);
+                    const handlerLocations = info.languageService.findRenameLocations(member.getSourceFile().fileName, member.name.getStart(), false, false) || [];
+                    handlerLocations.forEach(location => locations.push({
+                        fileName: location.fileName,
+                        textSpan: { start: location.textSpan.start + offset, length: name.length }
+                    }));
+                });
+            return locations;
+        }
+
+        function isSameLocation(a: MemberLocation, b: MemberLocation) {
+            return a.fileName === b.fileName && a.textSpan.start === b.textSpan.start;
+        }
+
+        /** Every place the tag of the component class named under the cursor is spelled out, e.g. `<my-card>` or `createElement('my-card')` */
+        function getComponentTagReferences(fileName: string, position: number): ts.ReferenceEntry[] | undefined {
             const node = Helper.getNode(fileName, position);
-            let text;
-            if (ts.isIdentifier(node)) text = node.text;
-            else if (ts.isPropertyDeclaration(node) && ts.isIdentifier(node.name)) text = node.name.text;
+            const component = node && ts.isIdentifier(node) && ts.isClassDeclaration(node.parent) && node.parent.name === node && isComponentClass(node.parent) ? node.parent : undefined;
+            const tagLiteral = component && getComponentTagLiteral(component);
+            if (!tagLiteral) { return undefined; }
+            return findTagLocations(info.languageService.getProgram(), tagLiteral.text)
+                .filter(location => location.kind !== 'declaration')
+                .map((location): ts.ReferenceEntry => ({
+                    fileName: location.fileName,
+                    textSpan: location.textSpan,
+                    isDefinition: false,
+                    isWriteAccess: false,
+                    ...(location.kind === 'jsx' ? {} : { isInString: true as true })
+                }));
+        }
 
-            const isWatched = text && meta.watched.some(w => w.prop === text);
-            
-            if (isWatched) findInStrings = true;
-            const prior = info.languageService.findRenameLocations(fileName, position, findInStrings, findInComments);
-            if (isWatched) {
-                const watcher = meta.watched.find(w => w.prop === text);
-                let propReferenceIndex = watcher.handler.indexOf(text);
-                // if (!(propReferenceIndex > -1)) { propReferenceIndex = watcher.handler.indexOf(capitalizeFirst(text)); }
-
-                if (propReferenceIndex > -1) {
-                    prior.push({
-                        fileName: fileName,
-                        textSpan: {
-                            start: sourceFile.getText().indexOf(watcher.handler) + propReferenceIndex,
-                            length: text.length
-                        }
-                    })
-                }
+        proxy.findReferences = (fileName: string, position: number) => {
+            if (!options.features.navigation) { return info.languageService.findReferences(fileName, position); }
+            const eventReference = getEventReferenceAt(fileName, position);
+            if (eventReference && eventReference.events.length) {
+                const { component, member } = eventReference.events[0];
+                return proxy.findReferences(component.fileName, member.node.name.getStart());
+            }
+
+            const prior = info.languageService.findReferences(fileName, position);
+            const tagReferences = getComponentTagReferences(fileName, position);
+            if (tagReferences && prior && prior.length) {
+                prior.push({ definition: prior[0].definition, references: tagReferences });
+                return prior;
+            }
+            const target = getComponentMemberAt(fileName, position);
+            if (!target || !prior || !prior.length) { return prior; }
+
+            const existing = [].concat(...prior.map(symbol => symbol.references)) as MemberLocation[];
+            const references = getMemberStringLocations(target.name, target.member, target.component)
+                .filter(location => !existing.some(other => isSameLocation(location, other)))
+                .map(location => ({
+                    fileName: location.fileName,
+                    textSpan: location.textSpan,
+                    isDefinition: false,
+                    isWriteAccess: !!location.isWriteAccess,
+                    isInString: true as true
+                }));
+            if (references.length) {
+                prior.push({ definition: prior[0].definition, references });
             }
 
             return prior;
         }
 
+        proxy.findRenameLocations = (fileName: string, position: number, findInStrings: boolean, findInComments: boolean) => {
+            if (!options.features.navigation) { return info.languageService.findRenameLocations(fileName, position, findInStrings, findInComments); }
+            const tag = getRenameableTagAt(fileName, position);
+            if (tag) {
+                return findTagLocations(info.languageService.getProgram(), tag.tag).map(({ fileName, textSpan }) => ({ fileName, textSpan }));
+            }
+
+            const eventReference = getEventReferenceAt(fileName, position);
+            if (eventReference && eventReference.events.length === 1) {
+                const { component, member } = eventReference.events[0];
+                return proxy.findRenameLocations(component.fileName, member.node.name.getStart(), findInStrings, findInComments);
+            }
+
+            const prior = info.languageService.findRenameLocations(fileName, position, findInStrings, findInComments);
+            const target = getComponentMemberAt(fileName, position);
+            if (!target || !prior) { return prior; }
+
+            const additional = [
+                ...getMemberStringLocations(target.name, target.member, target.component, true),
+                ...getWatchHandlerLocations(fileName, target.name, target.component)
+            ];
+            additional
+                .filter((location, i) => !prior.some(other => isSameLocation(location, other)) && additional.findIndex(other => isSameLocation(location, other)) === i)
+                .forEach(({ fileName, textSpan }) => prior.push({ fileName, textSpan }));
+
+            return prior;
+        }
+
+        function getStyleRegionAt(fileName: string, position: number) {
+            if (!options.features.styles) { return undefined; }
+            const node = Helper.getNode(fileName, position);
+            return node && getStyleRegion(node);
+        }
+
+        /** Contents of the component's `styleUrl`/`styleUrls` files that exist on disk */
+        function getStyleFileTexts(meta: ComponentMeta) {
+            return [meta.styleUrl, ...meta.styleUrls]
+                .filter(url => url)
+                .map(url => info.serverHost.readFile(resolve(dirname(meta.fileName), url)))
+                .filter(text => text);
+        }
+
+        /** Custom properties declared in the component's inline styles and in its linked style files */
+        function getComponentCustomProperties(region: StyleRegion) {
+            const properties = getCustomProperties(region.document.getText());
+            const component = getComponentClassAt(region.node);
+            const meta = component && registry.getComponentsInFile(component.getSourceFile()).find(c => c.node === component);
+            if (meta) {
+                getStyleFileTexts(meta).forEach(text => getCustomProperties(text).filter(p => !properties.includes(p)).forEach(p => properties.push(p)));
+            }
+            return properties;
+        }
+
+        /** Contents of the component's inline `styles` and of its style files */
+        function getComponentStyleTexts(component: ComponentMeta) {
+            const inlineStyles = getStyleRegions(component.node.getSourceFile())
+                .filter(region => getComponentClassAt(region.node) === component.node)
+                .map(region => region.document.getText());
+            return [...inlineStyles, ...getStyleFileTexts(component)];
+        }
+
+        /** Reference card for a component tag, including the custom properties of its inline and external styles */
+        function getComponentTagHover(component: ComponentMeta) {
+            const reference = getComponentReference(component, Helper.getChecker(), getComponentStyleTexts(component));
+            return getComponentHover(reference, relative(info.project.getCurrentDirectory(), component.fileName));
+        }
+
+        /** The element type `HTMLElementTagNameMap` declares for `tag`, e.g. `HTMLMyCardElement` */
+        function getTagElementTypeName(location: ts.Node, tag: string): string | undefined {
+            const checker = Helper.getChecker();
+            const tagMap = checker.getSymbolsInScope(location, ts.SymbolFlags.Interface).find(symbol => symbol.name === 'HTMLElementTagNameMap');
+            const property = tagMap && checker.getDeclaredTypeOfSymbol(tagMap).getProperty(tag);
+            return property ? checker.typeToString(checker.getTypeOfSymbolAtLocation(property, location)) : undefined;
+        }
+
+        function getTagQuickInfo(fileName: string, position: number): ts.QuickInfo {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const found = sourceFile && (getTagAtPosition(sourceFile, position) || getHtmlTagAt(sourceFile, position));
+            const details = found && getTagCompletionEntryDetails(found.tag);
+            if (!details) { return undefined; }
+            const elementType = getTagElementTypeName(findNode(sourceFile, position), found.tag);
+            return {
+                kind: details.kind,
+                kindModifiers: details.kindModifiers,
+                textSpan: found.textSpan,
+                displayParts: elementType
+                    ? [...details.displayParts, { kind: 'punctuation', text: ':' }, { kind: 'space', text: ' ' }, { kind: 'interfaceName', text: elementType }]
+                    : details.displayParts,
+                documentation: details.documentation,
+                tags: details.tags
+            };
+        }
+
+        function returnsPromise(member: ts.ClassElement) {
+            if (!ts.isMethodDeclaration(member)) { return false; }
+            if (Array.isArray(member.modifiers) && member.modifiers.some(mod => mod.kind === ts.SyntaxKind.AsyncKeyword)) { return true; }
+            const checker = Helper.getChecker();
+            const signature = checker.getSignatureFromDeclaration(member);
+            const type = signature && checker.getReturnTypeOfSignature(signature);
+            return !!(type && type.symbol && type.symbol.name === 'Promise');
+        }
+
+        /** Decorator details for the member `name` of the component class at `position`, see `getMemberHover` */
+        function getComponentMemberHover(sourceFile: ts.SourceFile, position: number, name: string) {
+            const component = getComponentClassAt(findNode(sourceFile, position));
+            if (!component) { return undefined; }
+            const member = component.members.find(m => toName(m) === name) || getInheritedMembers(component, Helper.getChecker()).find(m => toName(m) === name);
+            return member && getMemberHover(member, stencil, returnsPromise(member));
+        }
+
+        /** Flags deprecated Stencil APIs the same way TypeScript flags `@deprecated` declarations */
+        /**
+         * A copy of quick info or completion details that can be added to, as TypeScript hands out the
+         * documentation array it caches for the symbol.
+         */
+        function copyDocumentation<T extends ts.QuickInfo | ts.CompletionEntryDetails>(details: T): T {
+            return details && Object.assign({}, details, { documentation: [...(details.documentation || [])] });
+        }
+
+        function markDeprecated(details: ts.QuickInfo | ts.CompletionEntryDetails, message: string) {
+            details.kindModifiers = details.kindModifiers ? `${details.kindModifiers},deprecated` : 'deprecated';
+            details.tags = [...(details.tags || []), { name: 'deprecated', text: message }];
+        }
+
+        /** Deprecation of the component member, decorator or `@Prop()` option named under the cursor */
+        function getDeprecationAt(fileName: string, position: number): string | undefined {
+            const node = Helper.getNode(fileName, position);
+            if (!node || !ts.isIdentifier(node)) { return undefined; }
+            const parent = node.parent;
+
+            if (ts.isPropertyAssignment(parent) && parent.name === node) {
+                const call = parent.parent.parent;
+                const isPropOptions = ts.isCallExpression(call) && ts.isDecorator(call.parent) && ts.isIdentifier(call.expression) && call.expression.text === 'Prop';
+                return isPropOptions ? stencil.getDeprecation(node.text, true) : undefined;
+            }
+            const isComponentMember = ts.isClassElement(parent) && parent.name === node && isComponentClass(parent.parent);
+            const isThisAccess = ts.isPropertyAccessExpression(parent) && parent.name === node && parent.expression.kind === ts.SyntaxKind.ThisKeyword;
+            const isDecorator = (ts.isCallExpression(parent) && ts.isDecorator(parent.parent)) || ts.isImportSpecifier(parent);
+            return isComponentMember || isThisAccess || isDecorator ? stencil.getDeprecation(node.text) : undefined;
+        }
+
+        /**
+         * Signature help for `this.<event>.emit()`: documents the event on the emitter's signature, or
+         * describes `emit(detail: T)` from the `EventEmitter<T>` declaration when TypeScript has none.
+         */
+        proxy.getSignatureHelpItems = (fileName: string, position: number) => {
+            const prior = info.languageService.getSignatureHelpItems(fileName, position);
+            if (!options.features.completions) { return prior; }
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const emit = sourceFile && getEmitCallAt(sourceFile, position);
+            const component = emit && getComponentClassAt(emit.call);
+            const member = component && component.members.find(m => toName(m) === emit.memberName && !!hasDecoratorNamed(m, 'Event'));
+            if (!member) { return prior; }
+
+            const hover = getMemberHover(member, stencil);
+            const documentation: ts.SymbolDisplayPart[] = hover ? [{ kind: 'markdown', text: hover }] : [];
+            if (prior) {
+                return { ...prior, items: prior.items.map(item => ({ ...item, documentation: [...item.documentation, ...documentation] })) };
+            }
+
+            const detailType = getEmitterDetailType(member, Helper.getChecker());
+            const detailText = getEmitterDetailTypeText(member, Helper.getChecker());
+            const isOptional = !detailType || isOptionalDetail(detailType);
+            const { arguments: args } = emit.call;
+            return {
+                items: [{
+                    isVariadic: false,
+                    prefixDisplayParts: [{ kind: 'propertyName', text: emit.memberName }, { kind: 'punctuation', text: '.' }, { kind: 'methodName', text: 'emit' }, { kind: 'punctuation', text: '(' }],
+                    suffixDisplayParts: [{ kind: 'punctuation', text: ')' }, { kind: 'punctuation', text: ':' }, { kind: 'space', text: ' ' }, { kind: 'text', text: `CustomEvent<${detailText}>` }],
+                    separatorDisplayParts: [{ kind: 'punctuation', text: ',' }, { kind: 'space', text: ' ' }],
+                    parameters: [{
+                        name: 'detail',
+                        documentation: [{ kind: 'text', text: `Detail of the '${getEventName(member)}' event.` }],
+                        displayParts: [{ kind: 'parameterName', text: 'detail' }, { kind: 'punctuation', text: isOptional ? '?:' : ':' }, { kind: 'space', text: ' ' }, { kind: 'text', text: detailText }],
+                        isOptional
+                    }],
+                    documentation,
+                    tags: []
+                }],
+                applicableSpan: { start: args.pos, length: args.end - args.pos },
+                selectedItemIndex: 0,
+                argumentIndex: args.filter(arg => arg.getEnd() < position).length,
+                argumentCount: Math.max(1, args.length)
+            };
+        };
+
         proxy.getQuickInfoAtPosition = (fileName: string, position: number) => {
+            const styleRegion = getStyleRegionAt(fileName, position);
+            if (styleRegion) { return getStyleQuickInfo(styleRegion, position); }
+            const tagQuickInfo = options.features.quickInfo && getTagQuickInfo(fileName, position);
+            if (tagQuickInfo) { return tagQuickInfo; }
+
             // const node = Helper.getNode(fileName, position);
-            const prior = info.languageService.getQuickInfoAtPosition(fileName, position);
+            const original = info.languageService.getQuickInfoAtPosition(fileName, position);
+            if (!options.features.quickInfo) { return original; }
+            const prior = copyDocumentation(original);
 
-            if (prior && prior.kind === 'method' || prior.kind === 'property') {
+            const deprecation = prior && getDeprecationAt(fileName, position);
+            if (deprecation) { markDeprecated(prior, deprecation); }
+
+            if (prior && (prior.kind === 'method' || prior.kind === 'property')) {
                 const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
-                const meta: DocumentMeta = gatherDocumentMeta(sourceFile);
+                const meta: DocumentMeta = registry.getDocumentMetaAt(sourceFile, position);
                 const name = prior.kind === 'method' ? prior.displayParts.find(x => x.kind === 'methodName').text : prior.displayParts.find(x => x.kind === 'propertyName').text;
-                const { item, category } = getCategory(meta, name);
+                const { item, category } = getCategory(meta, name) || { item: undefined, category: undefined };
                 
-                if (category === 'watch') {
+                if (!category) {
+                    // Not a member of a component, e.g. an option inside a decorator
+                } else if (category === 'watch') {
                     prior.displayParts.splice(1, 1, ...buildStencilDisplayParts('watch'))
                     prior.displayParts.push({ kind: 'punctuation', text: '\n' }, { kind: 'punctuation', text: '(' }, { kind: 'text', text: 'watched' }, { kind: 'punctuation', text: ')' }, { kind: 'space', text: ' ' }, { kind: 'keyword', text: item.prop });
                 } else if (category === 'listen') {
                     let eventDisplayParts = [];
                     (item as any).events.forEach((event) => {
-                        return eventDisplayParts.push(...buildStencilDecoratorDisplayParts('Watch', event), { kind: 'punctuation', text: '\n' });
+                        return eventDisplayParts.push(...buildStencilDecoratorDisplayParts('Listen', `'${event}'`), { kind: 'punctuation', text: '\n' });
                     })
                     prior.displayParts.splice(0, 4);
                     prior.displayParts.splice(0, 0, ...eventDisplayParts)
                 } else {
                     prior.displayParts.splice(1, 1, ...buildStencilDisplayParts(category))
                 }
+                const hover = category && getComponentMemberHover(sourceFile, position, name);
+                if (hover) { prior.documentation.push({ kind: 'markdown', text: `\n\n${hover}` }); }
             }
 
             if (prior && prior.kind === 'method') {
                 const name = prior.displayParts.find(x => x.kind === 'methodName');
-                if (name && Stencil.ComponentLifecycleMethods.includes(name.text)) {
+                if (name && stencil.ComponentLifecycleMethods.includes(name.text)) {
                     const replaceIndex = prior.displayParts.findIndex(x => x.kind === 'text' && x.text === 'method');
-                    prior.displayParts.splice(replaceIndex, 1, { kind: 'text', text: 'lifecycle' });
+                    if (replaceIndex > -1) { prior.displayParts.splice(replaceIndex, 1, { kind: 'text', text: 'lifecycle' }); }
                     if (!prior.documentation.some(x => x.text.indexOf('**Component Lifecycle Method**') > -1)) {
-                        prior.documentation.push({ kind: 'markdown', text: '\n\n**Component Lifecycle Method**' + Stencil.ComponentLifecycleDocs[name.text] });
+                        prior.documentation.push({ kind: 'markdown', text: '\n\n**Component Lifecycle Method**' + stencil.ComponentLifecycleDocs[name.text] });
                     }
-                } else if (Stencil.ComponentBuiltinMethods.includes(name.text)) {
+                } else if (stencil.ComponentBuiltinMethods.includes(name.text)) {
                     if (!prior.documentation.some(x => x.text.indexOf('**Component Method**') > -1)) {
-                        prior.documentation.push({ kind: 'markdown', text: '\n\n**Component Method**' + Stencil.ComponentBuiltinMethodDocs[name.text] });
+                        prior.documentation.push({ kind: 'markdown', text: '\n\n**Component Method**' + stencil.ComponentBuiltinMethodDocs[name.text] });
                     }
                 }
             } else if (prior && prior.kind === 'alias') {
                 const name = prior.displayParts.find(x => x.kind === 'aliasName').text;
-                if (name && Stencil.Decorators.includes(name)) {
+                const readMore = stencil.DecoratorDocs[name] ? `\n\n[Read More](${options.docsUrl}/${stencil.DecoratorDocs[name]})` : '';
+                if (name && stencil.Decorators.includes(name)) {
                     if (!prior.documentation.some(x => x.text.indexOf('**Stencil Decorator**') > -1)) {
-                        prior.documentation.push({ kind: 'markdown', text: '\n\n**Stencil Decorator**' + Stencil.DecoratorDocs[name] || '' });
+                        prior.documentation.push({ kind: 'markdown', text: '\n\n**Stencil Decorator**' + readMore });
+                    }
+                } else if (name && stencil.CoreExports.includes(name)) {
+                    if (!prior.documentation.some(x => x.text.indexOf('**Stencil Component**') > -1)) {
+                        prior.documentation.push({ kind: 'markdown', text: '\n\n**Stencil Component**' + stencil.CoreExportDocs[name] + readMore });
                     }
                 }
             }
-            info.project.projectService.logger.info(`[test] QuickInfo "${JSON.stringify(prior, null, 2)}"`);
             
             return prior;
         }
         
+        let collectionComponents: CollectionComponent[] = [];
+        let collectionPackageJson: string;
+        function getInstalledCollectionComponents() {
+            const projectDir = info.project.getCurrentDirectory();
+            const packageJson = info.serverHost.readFile(`${projectDir}/package.json`);
+            if (packageJson !== collectionPackageJson) {
+                collectionPackageJson = packageJson;
+                collectionComponents = getCollectionComponents(info.serverHost, projectDir, options.collections);
+            }
+            return collectionComponents;
+        }
+
+        /** Every custom element tag known to the project: local components, installed collections and declared intrinsics */
+        function getKnownTags(node: ts.Node): string[] {
+            const tags = registry.getComponents().map(component => component.tag).filter(tag => tag);
+            const add = (tag: string) => { if (tag.includes('-') && !tags.includes(tag)) { tags.push(tag); } };
+            getInstalledCollectionComponents().forEach(component => add(component.tag));
+            Helper.getChecker().getJsxIntrinsicTagNamesAt(node).forEach(symbol => add(symbol.name));
+            return tags;
+        }
+
+        function getEventDetailType(member: ComponentMember) {
+            return getEventDetails(member.node).detailType;
+        }
+
+        function getMemberTypeText(member: ComponentMember) {
+            const checker = Helper.getChecker();
+            return checker.typeToString(checker.getTypeAtLocation(member.node.name));
+        }
+
+        function getMemberDocumentation(member: ComponentMember): ts.SymbolDisplayPart[] {
+            const checker = Helper.getChecker();
+            const symbol = checker.getSymbolAtLocation(member.node.name);
+            return symbol ? symbol.getDocumentationComment(checker) : [];
+        }
+
+        /** JSX attributes a component accepts: its props plus an `on<EventName>` handler per event */
+        function getJsxAttributes(component: ComponentMeta) {
+            return [
+                ...component.props.map(member => ({ name: member.name, category: 'prop', member, type: getMemberTypeText(member) })),
+                ...component.events.map(member => ({ name: toEventAttributeName(getEventName(member.node)), category: 'event', member, type: `(event: CustomEvent<${getEventDetailType(member)}>) => void` }))
+            ];
+        }
+
+        function getPropAttributes(component: ComponentMeta): PropAttribute[] {
+            const checker = Helper.getChecker();
+            return component.props.map(({ name, node }) => {
+                const prop = getPropDetails(node);
+                return { name, attribute: prop.connect || prop.context ? undefined : prop.attribute, type: checker.getTypeAtLocation(node.name) };
+            });
+        }
+
+        /** Attribute problems on every known component tag in the file, both in JSX and in HTML strings */
+        function getAttributeDiagnostics(sourceFile: ts.SourceFile): ts.Diagnostic[] {
+            if (sourceFile.isDeclarationFile || !registry.getComponents().some(c => c.tag && sourceFile.text.indexOf(c.tag) > -1)) { return []; }
+            const checker = Helper.getChecker();
+            const problems: AttributeProblem[] = [];
+
+            function visit(node: ts.Node) {
+                const component = isJsxTagElement(node) ? registry.getComponentByTag(getJsxTagName(node)) : undefined;
+                if (component && isJsxTagElement(node)) {
+                    const usages: AttributeUsage[] = node.attributes.properties.filter(ts.isJsxAttribute).map(attr => ({
+                        name: attr.name.text,
+                        textSpan: { start: attr.name.getStart(), length: attr.name.getWidth() },
+                        value: attr.initializer && ts.isStringLiteral(attr.initializer) ? attr.initializer.text : undefined,
+                        isExpression: !!attr.initializer && !ts.isStringLiteral(attr.initializer)
+                    }));
+                    const events = getJsxAttributes(component).filter(attr => attr.category === 'event').map(attr => attr.name);
+                    problems.push(...validateAttributes('jsx', component.tag, getPropAttributes(component), events, usages, checker, stencil));
+                } else if (isStringLike(node)) {
+                    getHtmlElements(node).forEach((element) => {
+                        const component = registry.getComponentByTag(element.tag);
+                        if (component) { problems.push(...validateAttributes('html', component.tag, getPropAttributes(component), [], element.attributes, checker, stencil)); }
+                    });
+                }
+                ts.forEachChild(node, visit);
+            }
+            visit(sourceFile);
+
+            return problems.map(problem => ({
+                file: sourceFile,
+                start: problem.textSpan.start,
+                length: problem.textSpan.length,
+                messageText: problem.messageText,
+                category: ts.DiagnosticCategory.Warning,
+                code: Stencil.DiagnosticCodes[problem.code],
+                source: Stencil.DiagnosticSource
+            }));
+        }
+
+        function getSlotDiagnostics(sourceFile: ts.SourceFile): ts.Diagnostic[] {
+            if (sourceFile.isDeclarationFile || sourceFile.text.indexOf('slot') === -1) { return []; }
+            return getSlotProblems(sourceFile, (tag) => {
+                const component = registry.getComponentByTag(tag);
+                if (!component) { return undefined; }
+                const { slots, parts, hasDynamicSlots } = getSlotsAndParts(component.node);
+                return { slots: slots.map(slot => slot.name), parts: parts.map(part => part.name), hasDynamicSlots };
+            }).map(({ node, code, messageText }) => createDiagnostic(node, code, messageText, ts.DiagnosticCategory.Warning));
+        }
+
+        /** Project components used in the `html` of a `newSpecPage()` without being listed in its `components` */
+        function getSpecPageDiagnostics(sourceFile: ts.SourceFile): ts.Diagnostic[] {
+            if (sourceFile.isDeclarationFile || sourceFile.text.indexOf('newSpecPage') === -1) { return []; }
+            const checker = Helper.getChecker();
+            const getComponentTag = (entry: ts.Expression) => {
+                let symbol = ts.isIdentifier(entry) ? checker.getSymbolAtLocation(entry) : undefined;
+                if (symbol && symbol.flags & ts.SymbolFlags.Alias) { symbol = checker.getAliasedSymbol(symbol); }
+                const declaration = symbol && (symbol.declarations || []).find(ts.isClassDeclaration);
+                if (!declaration) { return undefined; }
+                const component = registry.getComponentsInFile(declaration.getSourceFile()).find(c => c.className === (declaration.name && declaration.name.text));
+                // Classes that are not project components, e.g. from a collection, are listed but have no known tag
+                return component ? component.tag : '';
+            };
+            const getClassName = (tag: string) => {
+                const component = registry.getComponentByTag(tag);
+                return component && component.className;
+            };
+            return getSpecPageProblems(sourceFile, getComponentTag, getClassName).map(problem => ({
+                file: sourceFile,
+                start: problem.textSpan.start,
+                length: problem.textSpan.length,
+                messageText: problem.messageText,
+                category: ts.DiagnosticCategory.Warning,
+                code: Stencil.DiagnosticCodes[problem.code],
+                source: Stencil.DiagnosticSource
+            }));
+        }
+
+        /** Prop attributes not yet set on a component's start tag in spec test markup */
+        function getSpecAttributeCompletions(fileName: string, position: number): ts.CompletionInfo {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const context = sourceFile && getSpecMarkupAt(sourceFile, position) && getHtmlAttributeNameContext(sourceFile, position);
+            const component = context && registry.getComponentByTag(context.tag);
+            if (!component) { return undefined; }
+            const present = context.present.map(name => name.toLowerCase());
+            const attributes = getPropAttributes(component).filter(prop => prop.attribute && !present.includes(prop.attribute));
+            return {
+                isGlobalCompletion: false,
+                isMemberCompletion: false,
+                isNewIdentifierLocation: true,
+                entries: attributes.map((prop, i) => ({
+                    name: prop.attribute,
+                    kind: ts.ScriptElementKind.memberVariableElement,
+                    kindModifiers: '',
+                    sortText: `0-${i}`,
+                    replacementSpan: context.replacementSpan
+                }))
+            };
+        }
+
+        /** Named slots of the component a JSX child is placed in, inside the quoted value of its `slot` attribute */
+        function getSlotCompletions(fileName: string, position: number): ts.CompletionInfo {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const node = sourceFile && findNode(sourceFile, position);
+            if (!node || !ts.isStringLiteral(node) || !ts.isJsxAttribute(node.parent) || node.parent.name.text !== 'slot' || position <= node.getStart()) { return undefined; }
+            const host = getSlotHost(node.parent.parent.parent);
+            const component = host && registry.getComponentByTag(getJsxTagName(host));
+            const slots = component ? getSlotsAndParts(component.node).slots.filter(slot => slot.name) : [];
+            if (!slots.length) { return undefined; }
+            const replacementSpan = { start: node.getStart() + 1, length: node.text.length };
+            return {
+                isGlobalCompletion: false,
+                isMemberCompletion: false,
+                isNewIdentifierLocation: false,
+                entries: slots.map((slot, i) => ({ name: slot.name, kind: ts.ScriptElementKind.string, kindModifiers: '', sortText: `0-${i}`, replacementSpan }))
+            };
+        }
+
+        /** `true`/`false` and literal union members inside the quoted value of a prop, in JSX or in an HTML string */
+        function getAttributeValueCompletions(fileName: string, position: number): ts.CompletionInfo {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const node = sourceFile && findNode(sourceFile, position);
+            let target: { component: ComponentMeta, prop: (attr: PropAttribute) => boolean, replacementSpan: ts.TextSpan };
+
+            if (node && ts.isStringLiteral(node) && ts.isJsxAttribute(node.parent) && position > node.getStart()) {
+                const name = node.parent.name.text;
+                const component = registry.getComponentByTag(getJsxTagName(node.parent.parent.parent));
+                target = component && { component, prop: attr => attr.name === name, replacementSpan: { start: node.getStart() + 1, length: node.text.length } };
+            } else {
+                const context = sourceFile && getHtmlAttributeValueContext(sourceFile, position);
+                const component = context && registry.getComponentByTag(context.tag);
+                target = component && { component, prop: attr => attr.attribute === context.attribute.toLowerCase(), replacementSpan: context.replacementSpan };
+            }
+
+            const prop = target && getPropAttributes(target.component).find(target.prop);
+            const values = prop ? getValueCompletions(prop.type) : [];
+            if (!values.length) { return undefined; }
+            return {
+                isGlobalCompletion: false,
+                isMemberCompletion: false,
+                isNewIdentifierLocation: false,
+                entries: values.map((value, i) => ({
+                    name: value,
+                    kind: ts.ScriptElementKind.string,
+                    kindModifiers: '',
+                    sortText: `0-${i}`,
+                    replacementSpan: target.replacementSpan
+                }))
+            };
+        }
+
+        function getJsxCompletions(fileName: string, position: number, prior: ts.CompletionInfo): ts.CompletionInfo {
+            if (!options.features.jsx) { return undefined; }
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const context = getJsxCompletionContext(sourceFile, position);
+            if (!context) { return undefined; }
+
+            const node = Helper.getNode(fileName, position) || sourceFile;
+            const priorEntries = prior ? prior.entries : [];
+            let entries: ts.CompletionEntry[];
+
+            if (context.kind === 'attribute') {
+                const component = registry.getComponentByTag(getJsxTagName(context.element));
+                if (!component) { return undefined; }
+                const present = getJsxAttributeNames(context.element);
+                entries = getJsxAttributes(component)
+                    .filter(attr => !present.includes(attr.name))
+                    .map(attr => ({
+                        name: attr.name,
+                        kind: attr.category === 'prop' ? ts.ScriptElementKind.memberVariableElement : ts.ScriptElementKind.memberFunctionElement,
+                        kindModifiers: '',
+                        sortText: `0-${attr.name}`,
+                        replacementSpan: context.replacementSpan
+                    }));
+            } else {
+                const closing = context.kind === 'text' ? '<' : '';
+                const isClosed = context.kind === 'tag' && hasClosingTag(context.element);
+                entries = getKnownTags(node).map(tag => ({
+                    name: tag,
+                    kind: ts.ScriptElementKind.classElement,
+                    kindModifiers: '',
+                    sortText: `0-${tag}`,
+                    insertText: isClosed ? tag : `${closing}${tag}></${tag}>`,
+                    replacementSpan: context.replacementSpan
+                }));
+            }
+
+            return {
+                isGlobalCompletion: false,
+                isMemberCompletion: context.kind === 'attribute',
+                isNewIdentifierLocation: context.kind !== 'attribute',
+                entries: [...entries, ...priorEntries.filter(entry => !entries.some(e => e.name === entry.name))]
+            };
+        }
+
+        function getJsxCompletionEntryDetails(fileName: string, position: number, name: string): ts.CompletionEntryDetails {
+            if (!options.features.jsx) { return undefined; }
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const context = getJsxCompletionContext(sourceFile, position);
+            if (!context) { return undefined; }
+
+            if (context.kind === 'attribute') {
+                const component = registry.getComponentByTag(getJsxTagName(context.element));
+                const attr = component && getJsxAttributes(component).find(a => a.name === name);
+                if (!attr) { return undefined; }
+                return {
+                    name,
+                    kind: ts.ScriptElementKind.memberVariableElement,
+                    kindModifiers: '',
+                    displayParts: [
+                        { kind: 'punctuation', text: '(' }, ...buildStencilDisplayParts(attr.category), { kind: 'punctuation', text: ')' }, { kind: 'space', text: ' ' },
+                        { kind: 'className', text: component.tag }, { kind: 'punctuation', text: '.' },
+                        { kind: 'propertyName', text: name }, { kind: 'punctuation', text: ':' }, { kind: 'space', text: ' ' },
+                        { kind: 'text', text: attr.type }
+                    ],
+                    documentation: [...getMemberDocumentation(attr.member), { kind: 'markdown', text: `\n\n${getMemberHover(attr.member.node, stencil)}` }],
+                    tags: []
+                };
+            }
+
+            return getTagCompletionEntryDetails(name);
+        }
+
+        function getTagCompletionEntryDetails(name: string): ts.CompletionEntryDetails {
+            const component = registry.getComponentByTag(name);
+            const collection = !component && getInstalledCollectionComponents().find(c => c.tag === name);
+            if (!component && !collection) { return undefined; }
+            return {
+                name,
+                kind: ts.ScriptElementKind.classElement,
+                kindModifiers: '',
+                displayParts: [
+                    { kind: 'punctuation', text: '(' }, ...buildStencilDisplayParts('component'), { kind: 'punctuation', text: ')' }, { kind: 'space', text: ' ' },
+                    { kind: 'punctuation', text: '<' }, { kind: 'className', text: name }, { kind: 'punctuation', text: '>' }
+                ],
+                documentation: [component ? { kind: 'markdown', text: getComponentTagHover(component) } : { kind: 'text', text: `From collection '${collection.packageName}'` }],
+                tags: []
+            };
+        }
+
+        /** Completions for `hostData()` and `<Host>`: attributes, class names from the component's styles, CSS properties and ARIA values */
+        function getHostCompletions(fileName: string, position: number): ts.CompletionInfo {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const context = sourceFile && getHostCompletionContext(sourceFile, position);
+            if (!context) { return undefined; }
+
+            const component = getComponentClassAt(Helper.getNode(fileName, position) || sourceFile);
+            const meta = component && registry.getComponentsInFile(sourceFile).find(c => c.node === component);
+            const styleTexts = meta ? getComponentStyleTexts(meta) : [];
+            let names: string[] = [];
+            switch (context.kind) {
+                case 'attributes':
+                    names = [...stencil.HostAttributes, ...Object.keys(stencil.AriaAttributes)];
+                    break;
+                case 'class':
+                    styleTexts.forEach(text => getClassSelectors(text).filter(name => !names.includes(name)).forEach(name => names.push(name)));
+                    break;
+                case 'style':
+                    styleTexts.forEach(text => getCustomProperties(text).filter(name => !names.includes(name)).forEach(name => names.push(name)));
+                    names.push(...getCssPropertyNames().map(toCamelCase));
+                    break;
+                case 'value':
+                    names = context.attribute === 'role' ? stencil.AriaRoles : stencil.AriaAttributes.hasOwnProperty(context.attribute) ? stencil.AriaAttributes[context.attribute] : [];
+                    break;
+            }
+
+            const isValue = context.kind === 'value';
+            const toInsertText = (name: string) => isValue || context.jsx ? name : `${/^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`}: `;
+            const entries: ts.CompletionEntry[] = names
+                .filter(name => !context.present.includes(name))
+                .map((name, i) => ({
+                    name,
+                    kind: isValue ? ts.ScriptElementKind.string : ts.ScriptElementKind.memberVariableElement,
+                    kindModifiers: '',
+                    sortText: isValue ? `0-${i}` : `0-${name}`,
+                    insertText: toInsertText(name),
+                    replacementSpan: context.replacementSpan
+                }));
+            if (!entries.length) { return undefined; }
+            return {
+                isGlobalCompletion: false,
+                isMemberCompletion: !isValue,
+                isNewIdentifierLocation: !isValue,
+                entries
+            };
+        }
+
+        /** The decorator a call argument belongs to, e.g. `Listen` and `1` for the options of `@Listen('click', { })` */
+        function getDecoratorCall(node: ts.Node): { name: string, index: number } | undefined {
+            const call = node && node.parent;
+            if (!call || !ts.isCallExpression(call) || !ts.isDecorator(call.parent) || !ts.isIdentifier(call.expression)) { return undefined; }
+            return { name: call.expression.text, index: call.arguments.indexOf(node as ts.Expression) };
+        }
+
+        /**
+         * Completions inside decorator arguments: the options of every Stencil decorator, the props and
+         * states for `@Watch('')`, event names for `@Listen('')` and the targets for `@Listen(.., { target: '' })`.
+         */
+        function getDecoratorCompletions(fileName: string, position: number, prior: ts.CompletionInfo): ts.CompletionInfo {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            if (!sourceFile) { return undefined; }
+
+            const found = getObjectLiteralAt(sourceFile, position);
+            const optionsCall = found && getDecoratorCall(found.literal);
+            if (optionsCall && stencil.DecoratorOptions.hasOwnProperty(optionsCall.name) && optionsCall.index === getDecoratorOptionsIndex(optionsCall.name)) {
+                const decoratorOptions = stencil.DecoratorOptions[optionsCall.name];
+                const present = found.literal.properties.filter(p => p !== found.property).map(p => p.name && (ts.isIdentifier(p.name) || ts.isStringLiteral(p.name)) ? p.name.text : undefined);
+                const entries: ts.CompletionEntry[] = Object.keys(decoratorOptions)
+                    .filter(name => !present.includes(name))
+                    .map(name => ({
+                        name,
+                        kind: ts.ScriptElementKind.memberVariableElement,
+                        kindModifiers: '',
+                        sortText: `0-${name}`,
+                        insertText: expandTo(name, decoratorOptions[name]),
+                        replacementSpan: found.replacementSpan
+                    }));
+                const priorEntries = prior ? prior.entries.filter(entry => !entries.some(e => e.name === entry.name) && !present.includes(entry.name)) : [];
+                return {
+                    isGlobalCompletion: false,
+                    isMemberCompletion: true,
+                    isNewIdentifierLocation: true,
+                    entries: [...entries, ...priorEntries].map((entry) => {
+                        if (optionsCall.name === 'Prop' && stencil.getDeprecation(entry.name, true)) { entry.kindModifiers = entry.kindModifiers ? `${entry.kindModifiers},deprecated` : 'deprecated'; }
+                        return entry;
+                    })
+                };
+            }
+
+            const node = findNode(sourceFile, position);
+            if (!node || !ts.isStringLiteral(node) || position <= node.getStart()) { return undefined; }
+            let names: string[] = [];
+            const call = getDecoratorCall(node);
+            const assignment = node.parent && ts.isPropertyAssignment(node.parent) && node.parent.initializer === node ? node.parent : undefined;
+            const targetCall = assignment && ts.isIdentifier(assignment.name) && assignment.name.text === 'target' && getDecoratorCall(assignment.parent);
+            if (call && call.index === 0 && call.name === 'Watch') {
+                const meta = registry.getDocumentMetaAt(sourceFile, position);
+                names = [...meta.props, ...meta.propsConnect, ...meta.propsContext, ...meta.states];
+            } else if (call && call.index === 0 && call.name === 'Listen') {
+                registry.getComponents().forEach(component => component.events.forEach(({ node }) => {
+                    const name = getEventName(node);
+                    if (name && !names.includes(name)) { names.push(name); }
+                }));
+                names.push(...stencil.DomEvents.filter(name => !names.includes(name)));
+            } else if (targetCall && targetCall.name === 'Listen' && targetCall.index === 1) {
+                names = stencil.ListenTargets;
+            } else if (isConnectTagLiteral(node)) {
+                names = getKnownTags(node);
+            } else if (isContextKeyLiteral(node)) {
+                names = [...stencil.ContextKeys];
+                registry.getComponents().forEach(component => component.props.forEach(({ node }) => {
+                    const context = getPropDetails(node).context;
+                    if (context && !names.includes(context)) { names.push(context); }
+                }));
+            }
+            if (!names.length) { return undefined; }
+
+            const replacementSpan = { start: node.getStart() + 1, length: node.text.length };
+            return {
+                isGlobalCompletion: false,
+                isMemberCompletion: false,
+                isNewIdentifierLocation: true,
+                entries: names.map((name, i) => ({ name, kind: ts.ScriptElementKind.string, kindModifiers: '', sortText: `0-${i}`, replacementSpan }))
+            };
+        }
+
+        /** The component class whose body `position` is in, between members or on the name of a member being typed */
+        function getMemberInsertionAt(sourceFile: ts.SourceFile, position: number): { component: ts.ClassDeclaration, replacementSpan: ts.TextSpan } | undefined {
+            const typed = position > 0 ? findNode(sourceFile, position - 1) : undefined;
+            const member = typed && ts.isIdentifier(typed) && typed.getEnd() === position ? typed.parent : undefined;
+            if (member && ts.isPropertyDeclaration(member) && member.name === typed && !member.decorators && !member.modifiers && !member.type && !member.initializer && isComponentClass(member.parent)) {
+                return { component: member.parent, replacementSpan: { start: typed.getStart(), length: typed.getWidth() } };
+            }
+            const node = findNode(sourceFile, position);
+            if (node && isComponentClass(node) && position >= node.members.pos && position < node.getEnd()) {
+                return { component: node, replacementSpan: { start: position, length: 0 } };
+            }
+        }
+
+        /** `@Listen` handlers with a typed `CustomEvent<T>` parameter for the project events a component does not listen to yet */
+        function getListenHandlers(sourceFile: ts.SourceFile, position: number): { entry: ts.CompletionEntry, eventName: string, detailType: string, importChanges: ts.TextChange[] }[] {
+            const found = getMemberInsertionAt(sourceFile, position);
+            if (!found) { return []; }
+            const { component, replacementSpan } = found;
+            const listened: string[] = [].concat(...component.members.map(member => getDecoratorsNamed(member, 'Listen').map(getListenDetails).filter(listen => listen).map(listen => listen.eventName)));
+            const newLine = getNewLine(sourceFile);
+            const { indent } = getMemberIndentation(component);
+            const importChanges = addNamedImports(sourceFile, '@stencil/core', ['Listen']);
+            const events: { eventName: string, detailType: string }[] = [];
+            registry.getComponents().forEach(meta => meta.events.forEach(({ node }) => {
+                const event = getEventDetails(node);
+                if (!listened.includes(event.eventName) && !events.some(e => e.eventName === event.eventName)) { events.push(event); }
+            }));
+            return events.map(({ eventName, detailType }) => {
+                const name = `on${toPascalCase(eventName)}`;
+                return {
+                    eventName,
+                    detailType,
+                    importChanges,
+                    entry: {
+                        name,
+                        kind: ts.ScriptElementKind.memberFunctionElement,
+                        kindModifiers: '',
+                        sortText: `0-${name}`,
+                        insertText: `@Listen('${eventName}')${newLine}${indent}${name}(event: CustomEvent<${detailType}>) {${newLine}${indent}}`,
+                        replacementSpan,
+                        ...(importChanges.length ? { hasAction: true as true } : {})
+                    }
+                };
+            });
+        }
+
+        function getListenHandlerCompletions(fileName: string, position: number, prior: ts.CompletionInfo): ts.CompletionInfo {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const handlers = sourceFile ? getListenHandlers(sourceFile, position).map(handler => handler.entry) : [];
+            if (!handlers.length) { return undefined; }
+            const others = prior ? prior.entries.filter(entry => !handlers.some(handler => handler.name === entry.name)) : [];
+            return { isGlobalCompletion: false, isMemberCompletion: false, isNewIdentifierLocation: true, ...prior, entries: [...handlers, ...others] };
+        }
+
+        function getListenHandlerEntryDetails(fileName: string, position: number, name: string): ts.CompletionEntryDetails {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const handler = sourceFile && getListenHandlers(sourceFile, position).find(h => h.entry.name === name);
+            if (!handler) { return undefined; }
+            return {
+                name,
+                kind: handler.entry.kind,
+                kindModifiers: '',
+                displayParts: [
+                    ...buildStencilDecoratorDisplayParts('Listen', `'${handler.eventName}'`),
+                    { kind: 'punctuation', text: '\n' },
+                    { kind: 'methodName', text: name },
+                    { kind: 'punctuation', text: '(' },
+                    { kind: 'parameterName', text: 'event' },
+                    { kind: 'punctuation', text: ':' },
+                    { kind: 'space', text: ' ' },
+                    { kind: 'text', text: `CustomEvent<${handler.detailType}>` },
+                    { kind: 'punctuation', text: ')' }
+                ],
+                documentation: [{ kind: 'text', text: `Handles the '${handler.eventName}' event.` }],
+                tags: [],
+                codeActions: handler.importChanges.length ? [{ description: `Import 'Listen' from module "@stencil/core"`, changes: [{ fileName, textChanges: handler.importChanges }] }] : undefined
+            };
+        }
+
+        /** Span of the tag name being typed after `<` in markup: `innerHTML`-like DOM strings and spec test markup, not arbitrary strings */
+        function getMarkupTagCompletionSpan(sourceFile: ts.SourceFile, position: number) {
+            const isMarkup = getDomMarkupAt(sourceFile, position) || getSpecMarkupAt(sourceFile, position);
+            return isMarkup ? getHtmlTagCompletionSpan(sourceFile, position) : undefined;
+        }
+
+        function isHtmlTagCompletion(fileName: string, position: number) {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            return !!sourceFile && !!getMarkupTagCompletionSpan(sourceFile, position);
+        }
+
+        /** Tag name completions after `<` inside HTML markup such as `innerHTML` values */
+        function getHtmlTagCompletions(fileName: string, position: number): ts.CompletionInfo {
+            const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
+            const replacementSpan = sourceFile && getMarkupTagCompletionSpan(sourceFile, position);
+            if (!replacementSpan) { return undefined; }
+            return {
+                isGlobalCompletion: false,
+                isMemberCompletion: false,
+                isNewIdentifierLocation: true,
+                entries: getKnownTags(sourceFile).map(tag => ({
+                    name: tag,
+                    kind: ts.ScriptElementKind.classElement,
+                    kindModifiers: '',
+                    sortText: `0-${tag}`,
+                    replacementSpan
+                }))
+            };
+        }
+
         let cachedCompletionEntryDetailsFileName: string;
         let cachedCompletionEntryDetailsPosition: number;
         let cachedCompletionEntryDetailsNames: string[];
         let cachedCompletionEntryDetails = new Map <string, ts_module.CompletionEntryDetails>();
 
         proxy.getCompletionEntryDetails = (fileName: string, position: number, name: string, formatOptions: ts.FormatCodeOptions, source: string, preferences: ts.UserPreferences) => {
+            const jsxDetails = getJsxCompletionEntryDetails(fileName, position, name);
+            if (jsxDetails) { return jsxDetails; }
+            if (!options.features.completions) { return info.languageService.getCompletionEntryDetails(fileName, position, name, formatOptions, source, preferences); }
+            const htmlTagDetails = isHtmlTagCompletion(fileName, position) && getTagCompletionEntryDetails(name);
+            if (htmlTagDetails) { return htmlTagDetails; }
+            const handlerDetails = getListenHandlerEntryDetails(fileName, position, name);
+            if (handlerDetails) { return handlerDetails; }
+
             if (cachedCompletionEntryDetailsFileName === fileName && cachedCompletionEntryDetailsPosition === position && cachedCompletionEntryDetailsNames.includes(name)) {
                 return cachedCompletionEntryDetails.get(name);
             } else {
                 const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
-                const meta: DocumentMeta = gatherDocumentMeta(sourceFile);
-                const prior = info.languageService.getCompletionEntryDetails(fileName, position, name, formatOptions, source, preferences);
-                info.project.projectService.logger.info(`[test] DocumentMetadata "${JSON.stringify(meta, null, 2)}"`);
-                if (prior.kind === 'property' || prior.kind === 'method') {
-                    const { item, category } = getCategory(meta, name);
-                    if (category === 'watch') {
+                const meta: DocumentMeta = registry.getDocumentMetaAt(sourceFile, position);
+                const prior = copyDocumentation(info.languageService.getCompletionEntryDetails(fileName, position, name, formatOptions, source, preferences));
+                if (prior && (prior.kind === 'property' || prior.kind === 'method')) {
+                    const { item, category } = getCategory(meta, name) || { item: undefined, category: undefined };
+                    if (!category) {
+                        // Not a member of a component, e.g. an option inside a decorator
+                    } else if (category === 'watch') {
                         prior.displayParts.splice(1, 1, ...buildStencilDisplayParts('watch'))
                         prior.displayParts.push({ kind: 'punctuation', text: '\n' }, { kind: 'punctuation', text: '(' }, { kind: 'text', text: 'watched' }, { kind: 'punctuation', text: ')' }, { kind: 'space', text: ' ' }, { kind: 'keyword', text: item.prop });
                     } else if (category === 'listen') {
                         let eventDisplayParts = [];
                         (item as any).events.forEach((event) => {
-                            return eventDisplayParts.push(...buildStencilDecoratorDisplayParts('Watch', event), { kind: 'punctuation', text: '\n' });
+                            return eventDisplayParts.push(...buildStencilDecoratorDisplayParts('Listen', `'${event}'`), { kind: 'punctuation', text: '\n' });
                         })
                         prior.displayParts.splice(0, 4);
                         prior.displayParts.splice(0, 0, ...eventDisplayParts)
                     } else {
                         if (category === 'lifecycle') {
-                            prior.documentation.push({ kind: 'markdown', text: '\n\n**Component Lifecycle Method**' + Stencil.ComponentLifecycleDocs[name] });
+                            prior.documentation.push({ kind: 'markdown', text: '\n\n**Component Lifecycle Method**' + stencil.ComponentLifecycleDocs[name] });
                         }
                         prior.displayParts.splice(1, 1, ...buildStencilDisplayParts(category))
                     }
-                    info.project.projectService.logger.info(`[test] Adding Stencil Display Parts doucmentation "${JSON.stringify(prior, null, 2)}"`);
+                    if (category && stencil.getDeprecation(name)) { markDeprecated(prior, stencil.getDeprecation(name)); }
+                    const hover = category && getComponentMemberHover(sourceFile, position, name);
+                    if (hover) { prior.documentation.push({ kind: 'markdown', text: `\n\n${hover}` }); }
                 }
 
                 if (cachedCompletionEntryDetailsFileName === fileName && cachedCompletionEntryDetailsPosition === position) {
@@ -416,110 +1764,65 @@ function init(modules: { typescript: typeof ts_module }) {
 
         // Remove specified entries from completion list
         proxy.getCompletionsAtPosition = (fileName, position) => {
-            const node = Helper.getNode(fileName, position);
             const prior = info.languageService.getCompletionsAtPosition(
                 fileName,
                 position,
                 opts
             );
-            
-            if (node && node.parent && ts.isCallExpression(node.parent) && ts.isDecorator(node.parent.parent)) {
-                const decorator = ts.isIdentifier(node.parent.expression) && node.parent.expression.text;
-
-                switch (decorator) {
-                    case 'Prop':
-                        if (ts.isObjectLiteralExpression(node)) {
-                            prior.entries = [...prior.entries.map((entry) => {
-                                entry.insertText = expandTo(entry.name, Stencil.PropOptionsExpansion[entry.name]);
-                                entry.hasAction = true;
-                                return entry;
-                            })]
-                        }
-                        break;
-                    case 'Event':
-                        break;
-                }
-                // const symbol = Helper.getChecker();
-                // info.project.projectService.logger.info(`[test] Symbol at node "${JSON.stringify(symbol, null, 2)}"`);
 
-                info.project.projectService.logger.info(`[test] Inside decorator named "${decorator}"`);
-                
-            } else if (prior && prior.isMemberCompletion && !prior.isNewIdentifierLocation) {
+            const styleRegion = getStyleRegionAt(fileName, position);
+            if (styleRegion) {
+                return getStyleCompletions(styleRegion, position, {
+                    selectors: Stencil.StyleSelectors,
+                    customProperties: getComponentCustomProperties(styleRegion),
+                    parts: [].concat(...registry.getComponents().filter(c => c.tag).map(c => getSlotsAndParts(c.node).parts.map(part => ({ tag: c.tag, name: part.name }))))
+                });
+            }
+
+            const jsxCompletions = getJsxCompletions(fileName, position, prior);
+            if (jsxCompletions) { return jsxCompletions; }
+            if (!options.features.completions) { return prior; }
+            const hostCompletions = getHostCompletions(fileName, position);
+            if (hostCompletions) { return hostCompletions; }
+            const slotCompletions = getSlotCompletions(fileName, position);
+            if (slotCompletions) { return slotCompletions; }
+            const valueCompletions = getAttributeValueCompletions(fileName, position);
+            if (valueCompletions) { return valueCompletions; }
+            const htmlCompletions = getHtmlTagCompletions(fileName, position);
+            if (htmlCompletions) { return htmlCompletions; }
+            const specAttributeCompletions = getSpecAttributeCompletions(fileName, position);
+            if (specAttributeCompletions) { return specAttributeCompletions; }
+
+            const decoratorCompletions = getDecoratorCompletions(fileName, position, prior);
+            if (decoratorCompletions) { return decoratorCompletions; }
+            const handlerCompletions = getListenHandlerCompletions(fileName, position, prior);
+            if (handlerCompletions) { return handlerCompletions; }
+
+            if (prior && prior.isMemberCompletion && !prior.isNewIdentifierLocation) {
                 info.project.projectService.logger.info(`[test] Completing for "this."`);
                 const sourceFile = info.languageService.getProgram().getSourceFile(fileName);
-                const meta: DocumentMeta = gatherDocumentMeta(sourceFile);
+                const meta: DocumentMeta = registry.getDocumentMetaAt(sourceFile, position);
                 prior.entries = prior.entries
                     .filter((entry) => {
-                        return (entry.kind === 'method')
-                            ? !Stencil.ComponentBuiltinMethods.includes(entry.name)
+                        return (entry.kind === 'method' && options.hideBuiltinMethods)
+                            ? !stencil.ComponentBuiltinMethods.includes(entry.name)
                             : true;
                     })
                     .map((entry) => {
                         const category = getCategory(meta, entry.name);
                         if (category && category.category) {
                             entry.sortText = getSortText(category.category, entry.name)
+                            if (stencil.getDeprecation(entry.name)) { entry.kindModifiers = entry.kindModifiers ? `${entry.kindModifiers},deprecated` : 'deprecated'; }
                         }
-                        // if (entry.kind === 'method' && Stencil.ComponentLifecycleMethods.includes(entry.name)) {
+                        // if (entry.kind === 'method' && stencil.ComponentLifecycleMethods.includes(entry.name)) {
                         //     entry.sortText = `z-${entry.name}`;
                         //     entry.kind = ts.ScriptElementKind.indexSignatureElement
                         // }
                         return entry;
                     })
-            } else if (ts.isJsxText(node)) {
-                const intrinsicElements = Helper.getChecker().getJsxIntrinsicTagNamesAt(node)
-                    .map((value) => value.escapedName.toString())
-                    .slice(115)
-                    .filter((value) => !value.startsWith('test-'));
-                if (!prior) {
-                    const completions: ts.CompletionInfo = {
-                        isGlobalCompletion: false,
-                        isMemberCompletion: false,
-                        isNewIdentifierLocation: true,
-                        entries: intrinsicElements.map(el => {
-                            // insertText.push({
-                            //     span: { start: position + `</${el}>`.length, length: 0 },
-                            //     newText: `</${el}>`
-                            // })
-                            return {
-                                name: el,
-                                kind: ts.ScriptElementKind.unknown,
-                                insertText: `<${el}>`
-                            }
-                        }) as ts.CompletionEntry[]
-                    }
-                    return completions;
-                }
-                
-                info.project.projectService.logger.info(`[test] JSX Intrinsic Elements: ${JSON.stringify(intrinsicElements, null, 2)}`);
-            } else if (ts.isObjectLiteralExpression(node)) {
-                info.project.projectService.logger.info(`[test] Inside hostData?`);
-                let insideHostData = false;
-                function visit(_node: ts.Node) {
-                    if (!insideHostData) {
-                        info.project.projectService.logger.info(`[test] Walking AST: ${ts.SyntaxKind[_node.kind]}`);
-                        insideHostData = _node && ts.isMethodDeclaration(_node) && ts.isIdentifier(_node.name) && _node.name.text === 'hostData';
-
-                        if (_node.parent) visit(_node.parent);
-                    }
-                }
-                visit(node);
-
-                if (insideHostData) {
-                    return {
-                        isGlobalCompletion: false,
-                        isMemberCompletion: true,
-                        isNewIdentifierLocation: true,
-                        entries: Stencil.HostDataCompletions.map(item => {
-                            return {
-                                name: item,
-                                kind: ts.ScriptElementKind.memberVariableElement,
-                                insertText: item.indexOf('-') > 0 ? `'${item}': ` : `${item}: `
-                            }
-                        }) as ts.CompletionEntry[]
-                    }
-                }
             }
             
+            if (!prior) { return prior; }
             const oldLength = prior.entries.length;
             // Sample logging for diagnostic purposes
             if (oldLength !== prior.entries.length) {
@@ -0,0 +1,250 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { Stencil, StencilConstants } from './constants';
+
+export type MetaCategory = 'own property' | 'element' | 'state' | 'prop' | 'prop:connect' | 'prop:context' | 'watch' | 'event' | 'lifecycle' | 'listen' | 'method' | 'local method';
+
+export interface DocumentMeta {
+    className: string,
+    internalProperties: string[],
+    elements: string[],
+    states: string[],
+    propsConnect: string[],
+    propsContext: string[],
+    props: string[],
+    watched: { prop: string, handler: string }[],
+    events: string[],
+    lifecycle: string[],
+    listeners: { events: string[], handler: string }[],
+    methods: string[],
+    internalMethods: string[],
+}
+export interface ComponentMember {
+    name: string,
+    node: ts.ClassElement
+}
+export interface ComponentMeta {
+    className: string,
+    fileName: string,
+    node: ts.ClassDeclaration,
+    tag: string,
+    styleUrl: string,
+    styleUrls: string[],
+    shadow: boolean,
+    props: ComponentMember[],
+    events: ComponentMember[],
+    methods: ComponentMember[]
+}
+
+export function hasDecoratorNamed(node: ts.Node, name: string) {
+    if (!Array.isArray(node.decorators)) { return false; }
+    const decorators = node.decorators;
+    return Array.isArray(decorators) && decorators.find(decorator => ts.isCallExpression(decorator.expression) && ts.isIdentifier(decorator.expression.expression) && decorator.expression.expression.text === name);
+}
+
+export function getDecoratorsNamed(node: ts.Node, name: string) {
+    if (!Array.isArray(node.decorators)) { return []; }
+    return node.decorators.filter(decorator => ts.isCallExpression(decorator.expression) && ts.isIdentifier(decorator.expression.expression) && decorator.expression.expression.text === name);
+}
+
+export function getDecoratorArgument(decorator: ts.Decorator, index: number = 0) {
+    return decorator && ts.isCallExpression(decorator.expression) ? decorator.expression.arguments[index] : undefined;
+}
+
+export function toName(member: ts.ClassElement) {
+    return member.name && ts.isIdentifier(member.name) && member.name.text;
+}
+
+export function isComponentClass(node: ts.Node): node is ts.ClassDeclaration {
+    if (!node || !ts.isClassDeclaration(node)) { return false; }
+    return Array.isArray(node.decorators) && node.decorators.some((dec) => ts.isCallExpression(dec.expression) && ts.isIdentifier(dec.expression.expression) && dec.expression.expression.text === 'Component');
+}
+
+export function createDocumentMeta(): DocumentMeta {
+    return {
+        className: null,
+        internalProperties: [],
+        elements: [],
+        states: [],
+        propsConnect: [],
+        propsContext: [],
+        props: [],
+        watched: [],
+        events: [],
+        lifecycle: [],
+        listeners: [],
+        methods: [],
+        internalMethods: []
+    };
+}
+
+function addMemberMeta(meta: DocumentMeta, member: ts.ClassElement, stencil: StencilConstants) {
+    if (!member.decorators) {
+        if (stencil.ComponentBuiltinMethods.includes(toName(member))) return;
+        if (stencil.ComponentLifecycleMethods.includes(toName(member))) {
+            meta.lifecycle.push(toName((member)));
+        } else if (ts.isPropertyDeclaration(member)) {
+            meta.internalProperties.push(toName(member));
+        } else if (ts.isMethodDeclaration(member)) {
+            meta.internalMethods.push(toName(member));
+        }
+        return;
+    }
+
+    if (hasDecoratorNamed(member, 'Element')) { meta.elements.push(toName(member)); }
+    if (hasDecoratorNamed(member, 'State')) { meta.states.push(toName(member)); }
+    if (hasDecoratorNamed(member, 'Watch')) {
+        const decorator = member.decorators.find((dec) => ts.isCallExpression(dec.expression) && ts.isIdentifier(dec.expression.expression) && dec.expression.expression.text === 'Watch');
+        const prop = ts.isCallExpression(decorator.expression) && ts.isStringLiteral(decorator.expression.arguments[0]) && (decorator.expression.arguments[0] as ts.StringLiteral).text;
+        meta.watched.push({ prop, handler: toName(member) });
+    }
+    if (hasDecoratorNamed(member, 'Listen')) {
+        const decorators = member.decorators.filter((dec) => ts.isCallExpression(dec.expression) && ts.isIdentifier(dec.expression.expression) && dec.expression.expression.text === 'Listen');
+        const events = decorators.map(decorator => ts.isCallExpression(decorator.expression) && ts.isStringLiteral(decorator.expression.arguments[0]) && (decorator.expression.arguments[0] as ts.StringLiteral).text);
+        meta.listeners.push({ events, handler: toName(member) });
+    }
+    if (hasDecoratorNamed(member, 'Event')) { meta.events.push(toName(member)); }
+    if (hasDecoratorNamed(member, 'Method')) { meta.methods.push(toName(member)); }
+    if (hasDecoratorNamed(member, 'Prop')) {
+        const prop = getPropDetails(member);
+        if (prop.connect) { meta.propsConnect.push(toName(member)); }
+        else if (prop.context) { meta.propsContext.push(toName(member)); }
+        else { meta.props.push(toName(member)); }
+    }
+}
+
+/**
+ * Categorizes the members of one component class. `inherited` members, see `getInheritedMembers`,
+ * are categorized the same way as the class's own.
+ */
+export function gatherClassMeta(node: ts.ClassDeclaration, stencil: StencilConstants = Stencil, inherited: ts.ClassElement[] = []): DocumentMeta {
+    const meta = createDocumentMeta();
+    meta.className = node.name && node.name.text;
+    [...inherited, ...node.members].forEach(member => addMemberMeta(meta, member, stencil));
+    return meta;
+}
+
+export function hasExtendsClause(node: ts.ClassDeclaration) {
+    return !!node.heritageClauses && node.heritageClauses.some(clause => clause.token === ts.SyntaxKind.ExtendsKeyword);
+}
+
+/**
+ * Members a class inherits from base classes and mixins, resolved through the type checker so
+ * decorated members of an abstract base class or a mixin's class expression are found in any file.
+ * Members the class overrides are left out.
+ */
+export function getInheritedMembers(node: ts.ClassDeclaration, checker: ts.TypeChecker): ts.ClassElement[] {
+    if (!hasExtendsClause(node) || !node.name) { return []; }
+    const symbol = checker.getSymbolAtLocation(node.name);
+    const type = symbol && checker.getDeclaredTypeOfSymbol(symbol);
+    if (!type) { return []; }
+    const own = node.members.map(toName);
+    return checker.getPropertiesOfType(type)
+        .map(property => (property.declarations || []).find(declaration => ts.isClassElement(declaration) && declaration.parent !== node) as ts.ClassElement)
+        .filter(member => member && !own.includes(toName(member)));
+}
+
+export function getObjectLiteralProperty(node: ts.Node, name: string): ts.Expression {
+    if (!node || !ts.isObjectLiteralExpression(node)) { return undefined; }
+    const property = node.properties.find(prop => ts.isPropertyAssignment(prop) && (ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name)) && prop.name.text === name) as ts.PropertyAssignment;
+    return property && property.initializer;
+}
+
+function toStringValue(node: ts.Expression) {
+    return node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+}
+
+/**
+ * Reads a component's `@Component()` options and its props, events and methods. `inherited`
+ * members, see `getInheritedMembers`, come before the class's own members.
+ */
+export function gatherComponentMeta(node: ts.ClassDeclaration, inherited: ts.ClassElement[] = []): ComponentMeta {
+    const options = getDecoratorArgument(getDecoratorsNamed(node, 'Component')[0]);
+    const styleUrls = getObjectLiteralProperty(options, 'styleUrls');
+    const shadow = getObjectLiteralProperty(options, 'shadow');
+    const membersDecorated = (name: string) => [...inherited, ...node.members]
+        .filter(member => hasDecoratorNamed(member, name) && toName(member))
+        .map(member => ({ name: toName(member), node: member }));
+
+    return {
+        className: node.name && node.name.text,
+        fileName: node.getSourceFile().fileName,
+        node,
+        tag: toStringValue(getObjectLiteralProperty(options, 'tag')),
+        styleUrl: toStringValue(getObjectLiteralProperty(options, 'styleUrl')),
+        styleUrls: styleUrls && ts.isArrayLiteralExpression(styleUrls)
+            ? styleUrls.elements.map(toStringValue).filter(x => x)
+            : styleUrls && ts.isObjectLiteralExpression(styleUrls)
+                ? styleUrls.properties.map(prop => ts.isPropertyAssignment(prop) && toStringValue(prop.initializer)).filter(x => x)
+                : [],
+        shadow: !!shadow && shadow.kind === ts.SyntaxKind.TrueKeyword,
+        props: membersDecorated('Prop'),
+        events: membersDecorated('Event'),
+        methods: membersDecorated('Method')
+    };
+}
+
+/** The DOM event name an `@Event()` emits, honouring the `eventName` option. */
+export function getEventName(member: ts.ClassElement): string {
+    const options = getDecoratorArgument(getDecoratorsNamed(member, 'Event')[0]);
+    const eventName = toStringValue(getObjectLiteralProperty(options, 'eventName'));
+    return eventName || toName(member);
+}
+
+export function toDashCase(value: string) {
+    return value.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/([A-Z])([A-Z][a-z])/g, '$1-$2').toLowerCase();
+}
+
+/** `true`/`false` for a boolean literal option, `undefined` when it is missing or not a literal */
+export function getBooleanOption(options: ts.Node, name: string): boolean | undefined {
+    const value = getObjectLiteralProperty(options, name);
+    if (!value) { return undefined; }
+    if (value.kind === ts.SyntaxKind.TrueKeyword) { return true; }
+    if (value.kind === ts.SyntaxKind.FalseKeyword) { return false; }
+}
+
+export interface PropDetails {
+    /** Attribute the prop is bound to, or `undefined` for props that cannot be set from markup */
+    attribute: string,
+    mutable: boolean,
+    reflect: boolean,
+    defaultValue: string,
+    connect: string,
+    context: string
+}
+
+/** Options of a `@Prop()`, accepting both the Stencil 0.x (`attr`, `reflectToAttr`) and 1.x+ (`attribute`, `reflect`) names */
+export function getPropDetails(member: ts.ClassElement): PropDetails {
+    const options = getDecoratorArgument(getDecoratorsNamed(member, 'Prop')[0]);
+    const name = toName(member);
+    return {
+        attribute: toStringValue(getObjectLiteralProperty(options, 'attribute') || getObjectLiteralProperty(options, 'attr')) || (name && toDashCase(name)),
+        mutable: !!getBooleanOption(options, 'mutable'),
+        reflect: !!(getBooleanOption(options, 'reflect') || getBooleanOption(options, 'reflectToAttr')),
+        defaultValue: ts.isPropertyDeclaration(member) && member.initializer ? member.initializer.getText() : undefined,
+        connect: toStringValue(getObjectLiteralProperty(options, 'connect')),
+        context: toStringValue(getObjectLiteralProperty(options, 'context'))
+    };
+}
+
+export interface EventDetails {
+    eventName: string,
+    /** Text of the `EventEmitter<T>` type argument, `any` when it is missing */
+    detailType: string,
+    bubbles: boolean,
+    composed: boolean,
+    cancelable: boolean
+}
+
+/** Options of an `@Event()`; `bubbles`, `composed` and `cancelable` default to `true` like Stencil's */
+export function getEventDetails(member: ts.ClassElement): EventDetails {
+    const options = getDecoratorArgument(getDecoratorsNamed(member, 'Event')[0]);
+    const type = ts.isPropertyDeclaration(member) && member.type;
+    const withDefault = (value: boolean) => value === undefined ? true : value;
+    return {
+        eventName: getEventName(member),
+        detailType: type && ts.isTypeReferenceNode(type) && type.typeArguments && type.typeArguments.length ? type.typeArguments[0].getText() : 'any',
+        bubbles: withDefault(getBooleanOption(options, 'bubbles')),
+        composed: withDefault(getBooleanOption(options, 'composed')),
+        cancelable: withDefault(getBooleanOption(options, 'cancelable'))
+    };
+}
@@ -0,0 +1,98 @@
+import { MetaCategory } from './meta';
+
+export type PluginFeature = 'completions' | 'quickInfo' | 'diagnostics' | 'codeFixes' | 'refactors' | 'navigation' | 'jsx' | 'styles';
+
+/**
+ * Options read from the plugin entry in `tsconfig.json`:
+ *
+ * ```json
+ * "plugins": [{ "name": "typescript-plugin-stencil", "hideBuiltinMethods": false, "features": { "styles": false } }]
+ * ```
+ */
+export interface PluginOptions {
+    /** Category order used to sort `this.` completions, new members and the outline */
+    sortOrder: MetaCategory[],
+    /** Removes `render`/`hostData` from `this.` completions */
+    hideBuiltinMethods: boolean,
+    /** Forces `experimentalDecorators` on for the project */
+    experimentalDecorators: boolean,
+    features: { [feature in PluginFeature]: boolean },
+    /** Packages in `node_modules` to scan for components besides those marked as Stencil collections */
+    collections: string[],
+    /** Base URL for "Read More" links in hovers and completions */
+    docsUrl: string
+}
+
+export const DefaultOptions: PluginOptions = {
+    sortOrder: ['own property', 'element', 'state', 'prop:connect', 'prop:context', 'prop', 'watch', 'event', 'lifecycle', 'listen', 'method', 'local method'],
+    hideBuiltinMethods: true,
+    experimentalDecorators: true,
+    features: {
+        completions: true,
+        quickInfo: true,
+        diagnostics: true,
+        codeFixes: true,
+        refactors: true,
+        navigation: true,
+        jsx: true,
+        styles: true
+    },
+    collections: [],
+    docsUrl: 'https://stenciljs.com/docs'
+};
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Validates the raw plugin config against `PluginOptions`. Invalid settings are reported through
+ * `warn` and replaced by their defaults rather than failing plugin creation.
+ */
+export function parseOptions(config: any, warn: (message: string) => void): PluginOptions {
+    const options: PluginOptions = Object.assign({}, DefaultOptions, { features: Object.assign({}, DefaultOptions.features) });
+    if (!config || typeof config !== 'object') { return options; }
+    const known = ['name', ...Object.keys(DefaultOptions)];
+
+    Object.keys(config).filter(key => !known.includes(key)).forEach(key => warn(`Unknown option '${key}' was ignored.`));
+
+    if (config.sortOrder !== undefined) {
+        const unknown = isStringArray(config.sortOrder) ? config.sortOrder.filter((c: string) => !DefaultOptions.sortOrder.includes(c as MetaCategory)) : null;
+        if (!unknown) {
+            warn(`'sortOrder' must be an array of member categories.`);
+        } else if (unknown.length) {
+            warn(`'sortOrder' contains unknown categories: ${unknown.join(', ')}. Expected any of: ${DefaultOptions.sortOrder.join(', ')}.`);
+        } else {
+            // Categories left out keep their default relative order after the configured ones
+            options.sortOrder = [...config.sortOrder, ...DefaultOptions.sortOrder.filter(c => !config.sortOrder.includes(c))];
+        }
+    }
+
+    ['hideBuiltinMethods', 'experimentalDecorators'].forEach((key) => {
+        if (config[key] === undefined) { return; }
+        if (typeof config[key] !== 'boolean') { warn(`'${key}' must be a boolean.`); }
+        else { options[key] = config[key]; }
+    });
+
+    if (config.features !== undefined) {
+        if (!config.features || typeof config.features !== 'object' || Array.isArray(config.features)) {
+            warn(`'features' must be an object of feature names to booleans.`);
+        } else {
+            Object.keys(config.features).forEach((feature) => {
+                if (!(feature in DefaultOptions.features)) { warn(`Unknown feature '${feature}' was ignored.`); }
+                else if (typeof config.features[feature] !== 'boolean') { warn(`Feature '${feature}' must be a boolean.`); }
+                else { options.features[feature] = config.features[feature]; }
+            });
+        }
+    }
+
+    if (config.collections !== undefined) {
+        if (!isStringArray(config.collections)) { warn(`'collections' must be an array of package names.`); }
+        else { options.collections = config.collections; }
+    }
+
+    if (config.docsUrl !== undefined) {
+        if (typeof config.docsUrl !== 'string' || !/^https?:\/\//.test(config.docsUrl)) { warn(`'docsUrl' must be an http(s) URL.`); }
+        else { options.docsUrl = config.docsUrl.replace(/\/+$/, ''); }
+    }
+
+    return options;
+}
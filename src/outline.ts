@@ -0,0 +1,77 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+
+/** A component class and its members, in outline order, with the outline group of each */
+export interface OutlineComponent {
+    node: ts.ClassDeclaration,
+    tag: string,
+    /** Members without a `group` (e.g. `render()`) are listed after the groups */
+    members: { node: ts.ClassElement, group?: string }[]
+}
+
+const isSpanOf = (node: ts.Node) => (item: { spans: ts.TextSpan[] }) => item.spans.some(span => span.start === node.getStart());
+
+function getGroupSpans(items: { spans: ts.TextSpan[] }[]): ts.TextSpan[] {
+    const start = Math.min(...items.map(item => item.spans[0].start));
+    const end = Math.max(...items.map(item => item.spans[0].start + item.spans[0].length));
+    return [{ start, length: end - start }];
+}
+
+/** Splits `children` (outline items of a component's members) into one entry per group, followed by ungrouped members */
+function groupItems<T extends { spans: ts.TextSpan[] }>(component: OutlineComponent, children: T[], createGroup: (label: string, items: T[]) => T): T[] {
+    const ordered = component.members
+        .map(member => ({ group: member.group, item: children.find(isSpanOf(member.node)) }))
+        .filter(member => member.item);
+    const groups: string[] = [];
+    ordered.forEach(({ group }) => group && !groups.includes(group) && groups.push(group));
+    return [
+        ...groups.map(label => createGroup(label, ordered.filter(member => member.group === label).map(member => member.item))),
+        ...ordered.filter(member => !member.group).map(member => member.item),
+        ...children.filter(child => !ordered.some(member => member.item === child))
+    ];
+}
+
+function getClassText(component: OutlineComponent, text: string) {
+    return component.tag ? `${text} <${component.tag}>` : text;
+}
+
+/** Groups the members of component classes in a navigation tree and shows each component's tag on its class */
+export function groupNavigationTree(tree: ts.NavigationTree, components: OutlineComponent[]): ts.NavigationTree {
+    const component = tree.kind === ts.ScriptElementKind.classElement && components.find(c => isSpanOf(c.node)(tree));
+    if (component) {
+        return {
+            ...tree,
+            text: getClassText(component, tree.text),
+            childItems: groupItems(component, tree.childItems || [], (text, childItems) => ({
+                text,
+                kind: ts.ScriptElementKind.unknown,
+                kindModifiers: '',
+                spans: getGroupSpans(childItems),
+                childItems
+            }))
+        };
+    }
+    return tree.childItems ? { ...tree, childItems: tree.childItems.map(child => groupNavigationTree(child, components)) } : tree;
+}
+
+/**
+ * Groups the members of component classes in navigation bar items. The bar only shows two levels,
+ * so each group becomes an item of the class, and a top-level item listing its members.
+ */
+export function groupNavigationBarItems(items: ts.NavigationBarItem[], components: OutlineComponent[]): ts.NavigationBarItem[] {
+    const result: ts.NavigationBarItem[] = [];
+    items.forEach((item) => {
+        const component = item.kind === ts.ScriptElementKind.classElement && components.find(c => isSpanOf(c.node)(item));
+        if (!component) {
+            result.push(item);
+            return;
+        }
+        const groups: ts.NavigationBarItem[] = [];
+        const childItems = groupItems(component, item.childItems, (text, members) => {
+            const group = { text, kind: ts.ScriptElementKind.unknown, kindModifiers: '', spans: getGroupSpans(members), childItems: members, indent: item.indent + 1, bolded: false, grayed: false };
+            groups.push(group);
+            return { ...group, childItems: [] };
+        });
+        result.push({ ...item, text: getClassText(component, item.text), childItems }, ...groups);
+    });
+    return result;
+}
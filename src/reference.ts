@@ -0,0 +1,117 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { getCustomProperties, getDocumentedCustomProperties } from './css';
+import { getEmitterDetailTypeText, getListenDetails } from './events';
+import { ComponentMeta, getDecoratorArgument, getDecoratorsNamed, getEventDetails, getPropDetails, toName } from './meta';
+import { getRenderedNames } from './slots';
+
+export interface ReferenceEntry {
+    name: string,
+    description: string
+}
+
+/** Public API of a component as seen from its markup, gathered from decorators, types and JSDoc */
+export interface ComponentReference {
+    tag: string,
+    className: string,
+    fileName: string,
+    description: string,
+    props: (ReferenceEntry & { attribute: string, type: string, defaultValue: string, reflect: boolean })[],
+    events: (ReferenceEntry & { detailType: string })[],
+    methods: (ReferenceEntry & { signature: string, parameters: { name: string, type: string }[], returnType: string })[],
+    /** Named after the event; `target` is `undefined` when listening on the host element */
+    listeners: (ReferenceEntry & { target: string, handler: string })[],
+    /** Named after the handler method */
+    watchers: (ReferenceEntry & { props: string[] })[],
+    slots: ReferenceEntry[],
+    parts: ReferenceEntry[],
+    customProperties: ReferenceEntry[]
+}
+
+function getDescription(checker: ts.TypeChecker, node: ts.NamedDeclaration) {
+    const symbol = node.name && checker.getSymbolAtLocation(node.name);
+    return symbol ? ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim() : '';
+}
+
+/**
+ * Entries of JSDoc tags such as `@slot` and `@part`, written `@slot name - Description`. A tag
+ * without a name, `@slot - Description`, documents the default slot.
+ */
+function getTagEntries(node: ts.Node, tagName: string): ReferenceEntry[] {
+    return ts.getJSDocTags(node)
+        .filter(tag => tag.tagName.text === tagName)
+        .map((tag) => {
+            const match = /^\s*([^\s-][^\s]*)?\s*-?\s*([\s\S]*)$/.exec(tag.comment || '');
+            return { name: match[1] || '', description: match[2].trim() };
+        });
+}
+
+const addMissing = (entries: ReferenceEntry[], names: string[]) => names.forEach(name => entries.some(e => e.name === name) || entries.push({ name, description: '' }));
+
+/** Slots and shadow parts of a component: those documented with `@slot`/`@part`, followed by the ones only found in its JSX */
+export function getSlotsAndParts(node: ts.ClassDeclaration): { slots: ReferenceEntry[], parts: ReferenceEntry[], hasDynamicSlots: boolean } {
+    const rendered = getRenderedNames(node);
+    const slots = getTagEntries(node, 'slot');
+    const parts = getTagEntries(node, 'part');
+    addMissing(slots, rendered.slots);
+    addMissing(parts, rendered.parts);
+    return { slots, parts, hasDynamicSlots: rendered.hasDynamicSlots };
+}
+
+/**
+ * Gathers the reference for a component. `styleTexts` are the contents of its inline `styles` and
+ * style files, which provide the CSS custom properties.
+ */
+export function getComponentReference(component: ComponentMeta, checker: ts.TypeChecker, styleTexts: string[]): ComponentReference {
+    const { slots, parts } = getSlotsAndParts(component.node);
+    const customProperties: ReferenceEntry[] = [];
+    styleTexts.forEach((text) => {
+        getDocumentedCustomProperties(text).forEach(p => customProperties.some(c => c.name === p.name) || customProperties.push(p));
+        getCustomProperties(text).forEach(name => customProperties.some(c => c.name === name) || customProperties.push({ name, description: '' }));
+    });
+
+    return {
+        tag: component.tag,
+        className: component.className,
+        fileName: component.fileName,
+        description: getDescription(checker, component.node),
+        props: component.props.map(({ name, node }) => {
+            const prop = getPropDetails(node);
+            return {
+                name,
+                description: getDescription(checker, node),
+                attribute: prop.connect || prop.context ? undefined : prop.attribute,
+                type: checker.typeToString(checker.getTypeAtLocation(node.name)),
+                defaultValue: prop.defaultValue,
+                reflect: prop.reflect
+            };
+        }),
+        events: component.events.map(({ node }) => {
+            const event = getEventDetails(node);
+            return { name: event.eventName, description: getDescription(checker, node), detailType: getEmitterDetailTypeText(node, checker) };
+        }),
+        methods: component.methods.map(({ name, node }) => {
+            const signature = ts.isMethodDeclaration(node) && checker.getSignatureFromDeclaration(node);
+            return {
+                name,
+                description: getDescription(checker, node),
+                signature: signature ? checker.signatureToString(signature) : '',
+                parameters: signature ? signature.getParameters().map(param => ({ name: param.name, type: checker.typeToString(checker.getTypeOfSymbolAtLocation(param, node)) })) : [],
+                returnType: signature ? checker.typeToString(signature.getReturnType()) : ''
+            };
+        }),
+        listeners: [].concat(...component.node.members.map(member => getDecoratorsNamed(member, 'Listen')
+            .map(getListenDetails)
+            .filter(listen => listen)
+            .map(listen => ({ name: listen.eventName, description: getDescription(checker, member), target: listen.target, handler: toName(member) })))),
+        watchers: component.node.members
+            .filter(member => getDecoratorsNamed(member, 'Watch').length)
+            .map(member => ({
+                name: toName(member),
+                description: getDescription(checker, member),
+                props: getDecoratorsNamed(member, 'Watch').map(d => getDecoratorArgument(d)).filter(arg => arg && ts.isStringLiteral(arg)).map((arg: ts.StringLiteral) => arg.text)
+            })),
+        slots,
+        parts,
+        customProperties
+    };
+}
@@ -0,0 +1,124 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { Stencil, StencilConstants } from './constants';
+import { ComponentMeta, DocumentMeta, createDocumentMeta, gatherClassMeta, gatherComponentMeta, getInheritedMembers, hasExtendsClause, isComponentClass } from './meta';
+import { findAllNodes, findNode } from './ts-util/index';
+
+interface RegistryEntry {
+    sourceFile: ts.SourceFile,
+    /** Own members of each component class, in the same order as `components` */
+    metas: DocumentMeta[],
+    components: ComponentMeta[]
+}
+
+interface InheritedEntry {
+    meta: DocumentMeta,
+    component: ComponentMeta
+}
+
+/**
+ * Project-wide index of every `@Component` class.
+ *
+ * Entries are keyed by file name and reused for as long as the program hands back the same
+ * `SourceFile` object, so only files that actually changed are walked again.
+ */
+export class ComponentRegistry {
+    private entries = new Map<string, RegistryEntry>();
+    private program: ts.Program;
+    private inherited = new Map<ts.ClassDeclaration, InheritedEntry>();
+    private inheritedProgram: ts.Program;
+
+    constructor(private getProgram: () => ts.Program, private stencil: StencilConstants = Stencil) {}
+
+    private createEntry(sourceFile: ts.SourceFile): RegistryEntry {
+        // Cheap pre-check so files without components never have their AST walked
+        if (sourceFile.text.indexOf('@Component') === -1) {
+            return { sourceFile, metas: [], components: [] };
+        }
+        const classes = findAllNodes(sourceFile, isComponentClass) as ts.ClassDeclaration[];
+        return { sourceFile, metas: classes.map(node => gatherClassMeta(node, this.stencil)), components: classes.map(node => gatherComponentMeta(node)) };
+    }
+
+    private getEntry(sourceFile: ts.SourceFile): RegistryEntry {
+        const cached = this.entries.get(sourceFile.fileName);
+        if (cached && cached.sourceFile === sourceFile) { return cached; }
+
+        const entry = this.createEntry(sourceFile);
+        this.entries.set(sourceFile.fileName, entry);
+        return entry;
+    }
+
+    /** Brings the registry up to date with the current program, re-indexing changed files only. */
+    sync() {
+        const program = this.getProgram();
+        if (!program || program === this.program) { return; }
+        this.program = program;
+
+        const seen = new Set<string>();
+        program.getSourceFiles().forEach((sourceFile) => {
+            if (sourceFile.isDeclarationFile) { return; }
+            seen.add(sourceFile.fileName);
+            this.getEntry(sourceFile);
+        });
+        Array.from(this.entries.keys())
+            .filter(fileName => !seen.has(fileName))
+            .forEach(fileName => this.entries.delete(fileName));
+    }
+
+    /**
+     * Metadata of a component class and the members it inherits through an `extends` clause. As base
+     * classes may live in other files, these are resolved again whenever the program changes.
+     */
+    private getInheritedEntry(node: ts.ClassDeclaration): InheritedEntry {
+        const program = this.getProgram();
+        if (program !== this.inheritedProgram) {
+            this.inherited.clear();
+            this.inheritedProgram = program;
+        }
+        let entry = this.inherited.get(node);
+        if (!entry) {
+            const members = getInheritedMembers(node, program.getTypeChecker());
+            entry = { meta: gatherClassMeta(node, this.stencil, members), component: gatherComponentMeta(node, members) };
+            this.inherited.set(node, entry);
+        }
+        return entry;
+    }
+
+    /** Metadata of a component class, including the members it inherits when it extends another class */
+    getClassMeta(node: ts.ClassDeclaration): DocumentMeta {
+        if (hasExtendsClause(node)) { return this.getInheritedEntry(node).meta; }
+        const entry = this.getEntry(node.getSourceFile());
+        const index = entry.components.findIndex(component => component.node === node);
+        return index > -1 ? entry.metas[index] : gatherClassMeta(node, this.stencil);
+    }
+
+    /** Metadata of the component class containing `position`, empty outside of component classes */
+    getDocumentMetaAt(sourceFile: ts.SourceFile, position: number): DocumentMeta {
+        let node = findNode(sourceFile, position);
+        while (node && !isComponentClass(node)) { node = node.parent; }
+        return node ? this.getClassMeta(node as ts.ClassDeclaration) : createDocumentMeta();
+    }
+
+    /** Adds inherited props, events and methods to components with an `extends` clause, like `getClassMeta` */
+    private withInherited(components: ComponentMeta[]): ComponentMeta[] {
+        return components.map(component => hasExtendsClause(component.node) ? this.getInheritedEntry(component.node).component : component);
+    }
+
+    getComponentsInFile(sourceFile: ts.SourceFile): ComponentMeta[] {
+        return this.withInherited(this.getEntry(sourceFile).components);
+    }
+
+    getComponents(): ComponentMeta[] {
+        this.sync();
+        const components: ComponentMeta[] = [];
+        this.entries.forEach(entry => components.push(...entry.components));
+        return this.withInherited(components);
+    }
+
+    getComponentByTag(tag: string): ComponentMeta {
+        return this.getComponents().find(component => component.tag === tag);
+    }
+
+    getComponentByClassName(className: string): ComponentMeta {
+        return this.getComponents().find(component => component.className === className);
+    }
+}
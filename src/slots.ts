@@ -0,0 +1,95 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { getClosestMatch } from './strings';
+import { getJsxTagName, isJsxTagElement, JsxTagElement } from './ts-util/jsx';
+
+/** Slots and shadow parts found in a component's JSX; `''` is the default slot */
+export interface RenderedNames {
+    slots: string[],
+    parts: string[],
+    /** Whether a `<slot>` takes its name from an expression, so the slot names are not all known */
+    hasDynamicSlots: boolean
+}
+
+export interface SlotProblem {
+    code: 'UnknownSlot',
+    node: ts.Node,
+    messageText: string
+}
+
+/** The literal value of a JSX attribute, `''` for a bare attribute and `undefined` for an expression */
+export function getJsxAttributeValue(element: JsxTagElement, name: string): string | undefined {
+    const attr = element.attributes.properties.find(p => ts.isJsxAttribute(p) && p.name.text === name) as ts.JsxAttribute;
+    if (!attr) { return undefined; }
+    if (!attr.initializer) { return ''; }
+    const value = ts.isJsxExpression(attr.initializer) ? attr.initializer.expression : attr.initializer;
+    return value && (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value)) ? value.text : undefined;
+}
+
+function hasJsxAttribute(element: JsxTagElement, name: string) {
+    return element.attributes.properties.some(p => ts.isJsxAttribute(p) && p.name.text === name);
+}
+
+/**
+ * Reads the `<slot name>` elements and `part` attributes of the JSX in a component's methods, which
+ * covers `render()` as well as helpers such as `renderHeader()`.
+ */
+export function getRenderedNames(component: ts.ClassDeclaration): RenderedNames {
+    const rendered: RenderedNames = { slots: [], parts: [], hasDynamicSlots: false };
+    const add = (names: string[], name: string) => names.includes(name) || names.push(name);
+    const visit = (node: ts.Node) => {
+        if (isJsxTagElement(node)) {
+            if (getJsxTagName(node) === 'slot') {
+                const name = getJsxAttributeValue(node, 'name');
+                if (name !== undefined) {
+                    add(rendered.slots, name);
+                } else if (hasJsxAttribute(node, 'name')) {
+                    rendered.hasDynamicSlots = true;
+                } else {
+                    add(rendered.slots, '');
+                }
+            }
+            const part = getJsxAttributeValue(node, 'part');
+            if (part) { part.split(/\s+/).filter(name => name).forEach(name => add(rendered.parts, name)); }
+        }
+        ts.forEachChild(node, visit);
+    };
+    component.members.filter(member => ts.isMethodDeclaration(member) || ts.isGetAccessor(member) || ts.isPropertyDeclaration(member)).forEach(visit);
+    return rendered;
+}
+
+/** The tag element a JSX element is a direct child of, which is the element whose slots it is placed in */
+export function getSlotHost(element: JsxTagElement): JsxTagElement | undefined {
+    const self = ts.isJsxOpeningElement(element) ? element.parent : element;
+    const container = self.parent;
+    return container && ts.isJsxElement(container) ? container.openingElement : undefined;
+}
+
+/**
+ * Checks the `slot` attributes of JSX children placed inside a component's tag against the slots
+ * it renders or documents, as returned by `getSlots` for the tag (`undefined` when it is not a
+ * project component).
+ */
+export function getSlotProblems(sourceFile: ts.SourceFile, getSlots: (tag: string) => RenderedNames | undefined): SlotProblem[] {
+    const problems: SlotProblem[] = [];
+    const visit = (node: ts.Node) => {
+        const slot = isJsxTagElement(node) ? getJsxAttributeValue(node, 'slot') : undefined;
+        const host = slot && getSlotHost(node as JsxTagElement);
+        const tag = host && getJsxTagName(host);
+        const known = tag && getSlots(tag);
+        if (known && !known.hasDynamicSlots && !known.slots.includes(slot)) {
+            const attr = (node as JsxTagElement).attributes.properties.find(p => ts.isJsxAttribute(p) && p.name.text === 'slot') as ts.JsxAttribute;
+            const named = known.slots.filter(name => name);
+            const closest = getClosestMatch(slot, named);
+            problems.push({
+                code: 'UnknownSlot',
+                node: attr.initializer,
+                messageText: named.length
+                    ? `<${tag}> has no slot named '${slot}'.${closest ? ` Did you mean '${closest}'?` : ''}`
+                    : `<${tag}> does not render any named slots, so content for '${slot}' is not shown.`
+            });
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return problems;
+}
@@ -0,0 +1,82 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { findNode, isTagged } from './ts-util/index';
+import { getHtmlElements, getLiteral, isStringLike, StringLikeNode } from './ts-util/html';
+
+export interface SpecPageProblem {
+    code: 'UnregisteredSpecComponent',
+    textSpan: ts.TextSpan,
+    messageText: string
+}
+
+function getCalledName(call: ts.CallExpression) {
+    const callee = call.expression;
+    if (ts.isIdentifier(callee)) { return callee.text; }
+    if (ts.isPropertyAccessExpression(callee)) { return callee.name.text; }
+}
+
+/** The markup passed as `html` to `newSpecPage()` or to `setContent()`, looking through an `html` template tag */
+function isSpecMarkupLiteral(literal: ts.Expression) {
+    const value = isTagged(literal, 'html') ? literal.parent as ts.TaggedTemplateExpression : literal;
+    const parent = value.parent;
+    if (parent && ts.isCallExpression(parent)) {
+        return getCalledName(parent) === 'setContent' && parent.arguments[0] === value;
+    }
+    if (parent && ts.isPropertyAssignment(parent) && parent.initializer === value && ts.isIdentifier(parent.name) && parent.name.text === 'html') {
+        const call = parent.parent.parent;
+        return !!call && ts.isCallExpression(call) && getCalledName(call) === 'newSpecPage';
+    }
+    return false;
+}
+
+/**
+ * The string under the cursor when it holds spec test markup: the `html` of `newSpecPage()`, the
+ * content of `page.setContent()` in E2E tests, or either written as an `html` tagged template.
+ */
+export function getSpecMarkupAt(sourceFile: ts.SourceFile, position: number): StringLikeNode | undefined {
+    const node = findNode(sourceFile, position);
+    return isStringLike(node) && position > node.getStart() && isSpecMarkupLiteral(getLiteral(node)) ? node : undefined;
+}
+
+/** Every string part of an expression, including those of nested templates */
+function getStringParts(node: ts.Node): StringLikeNode[] {
+    const parts: StringLikeNode[] = [];
+    const visit = (child: ts.Node) => {
+        if (isStringLike(child)) { parts.push(child); } else { ts.forEachChild(child, visit); }
+    };
+    visit(node);
+    return parts;
+}
+
+/**
+ * Checks that the project components used in the `html` of each `newSpecPage()` are listed in its
+ * `components`, as unlisted components are not defined and render as unknown elements.
+ * `getComponentTag` resolves an entry of `components` to its tag; calls with an entry it cannot
+ * resolve are skipped. `getClassName` returns the class of a project component's tag.
+ */
+export function getSpecPageProblems(sourceFile: ts.SourceFile, getComponentTag: (entry: ts.Expression) => string | undefined, getClassName: (tag: string) => string | undefined): SpecPageProblem[] {
+    const problems: SpecPageProblem[] = [];
+    const visit = (node: ts.Node) => {
+        const options = ts.isCallExpression(node) && getCalledName(node) === 'newSpecPage' ? node.arguments[0] : undefined;
+        if (options && ts.isObjectLiteralExpression(options)) {
+            const property = (name: string) => options.properties.find(p => ts.isPropertyAssignment(p) && ts.isIdentifier(p.name) && p.name.text === name) as ts.PropertyAssignment;
+            const html = property('html');
+            const components = property('components');
+            const tags = components && ts.isArrayLiteralExpression(components.initializer) ? components.initializer.elements.map(getComponentTag) : undefined;
+            if (html && tags && !tags.some(tag => tag === undefined)) {
+                getStringParts(html.initializer).forEach(part => getHtmlElements(part).forEach((element) => {
+                    const className = getClassName(element.tag);
+                    if (className && !tags.includes(element.tag)) {
+                        problems.push({
+                            code: 'UnregisteredSpecComponent',
+                            textSpan: element.textSpan,
+                            messageText: `<${element.tag}> is not defined in this spec page. Add '${className}' to the components of newSpecPage().`
+                        });
+                    }
+                }));
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return problems;
+}
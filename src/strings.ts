@@ -0,0 +1,24 @@
+/** Levenshtein distance between `a` and `b` */
+function getEditDistance(a: string, b: string) {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let prev = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+            prev = current;
+        }
+    }
+    return row[b.length];
+}
+
+/** The candidate closest to `value`, ignoring case, if any is close enough to be a likely typo */
+export function getClosestMatch(value: string, candidates: string[]) {
+    const threshold = Math.max(2, Math.floor(value.length / 2));
+    return candidates
+        .map(candidate => ({ candidate, distance: getEditDistance(value.toLowerCase(), candidate.toLowerCase()) }))
+        .filter(x => x.distance <= threshold)
+        .sort((a, b) => a.distance - b.distance)
+        .map(x => x.candidate)[0];
+}
@@ -0,0 +1,141 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { getDecoratorArgument, getDecoratorsNamed, getObjectLiteralProperty } from './meta';
+import { findNode } from './ts-util/index';
+import { findHtmlTags, isStringLike } from './ts-util/html';
+import { isJsxTagElement, JsxTagElement } from './ts-util/jsx';
+
+export interface TagLocation {
+    fileName: string,
+    textSpan: ts.TextSpan,
+    kind: 'component' | 'jsx' | 'declaration' | 'connect' | 'dom' | 'html'
+}
+
+const TagMapInterfaces = ['HTMLElementTagNameMap', 'IntrinsicElements', 'StencilIntrinsicElements'];
+
+/** DOM APIs whose first argument is a tag name */
+const TagNameMethods = ['createElement', 'whenDefined', 'get'];
+/** DOM APIs whose first argument is a CSS selector, which may name tags */
+const SelectorMethods = ['querySelector', 'querySelectorAll', 'closest', 'matches'];
+
+function getStringSpan(node: ts.StringLiteral | ts.NoSubstitutionTemplateLiteral): ts.TextSpan {
+    return { start: node.getStart() + 1, length: node.text.length };
+}
+
+/** Whether `node` is the string value of `option` in the options of a `decorator`, e.g. `tag` of `@Component` */
+function isDecoratorOptionLiteral(node: ts.Node, decorator: string, option: string): node is ts.StringLiteral {
+    if (!node || !ts.isStringLiteral(node) || !ts.isPropertyAssignment(node.parent) || node.parent.initializer !== node) { return false; }
+    const assignment = node.parent;
+    if (!ts.isIdentifier(assignment.name) || assignment.name.text !== option) { return false; }
+    const call = assignment.parent.parent;
+    return ts.isCallExpression(call) && ts.isDecorator(call.parent) && ts.isIdentifier(call.expression) && call.expression.text === decorator;
+}
+
+/** The `tag` literal of a `@Component` decorator, when `node` is one */
+function isComponentTagLiteral(node: ts.Node): node is ts.StringLiteral {
+    return isDecoratorOptionLiteral(node, 'Component', 'tag');
+}
+
+/** The tag of a Stencil 0.x `@Prop({ connect: 'tag' })`, when `node` is one */
+export function isConnectTagLiteral(node: ts.Node): node is ts.StringLiteral {
+    return isDecoratorOptionLiteral(node, 'Prop', 'connect');
+}
+
+/** The `@Prop({ context: 'key' })` literal, when `node` is one */
+export function isContextKeyLiteral(node: ts.Node): node is ts.StringLiteral {
+    return isDecoratorOptionLiteral(node, 'Prop', 'context');
+}
+
+export function getComponentTagLiteral(component: ts.ClassDeclaration): ts.StringLiteral | undefined {
+    const options = getDecoratorArgument(getDecoratorsNamed(component, 'Component')[0]);
+    const tag = getObjectLiteralProperty(options, 'tag');
+    return tag && ts.isStringLiteral(tag) ? tag : undefined;
+}
+
+/**
+ * Tags named in the string argument of a DOM API such as `document.createElement('my-card')`,
+ * `customElements.whenDefined('my-card')` or `el.querySelector('my-list > my-card')`.
+ */
+export function getDomApiTags(node: ts.Node): { tag: string, textSpan: ts.TextSpan }[] {
+    if (!node || !(ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))) { return []; }
+    const call = node.parent;
+    if (!call || !ts.isCallExpression(call) || call.arguments[0] !== node || !ts.isPropertyAccessExpression(call.expression)) { return []; }
+    const method = call.expression.name.text;
+    const start = node.getStart() + 1;
+
+    if (TagNameMethods.includes(method)) {
+        const takesTag = method === 'createElement' || /(^|\.)customElements$/.test(call.expression.expression.getText());
+        return takesTag && node.text.includes('-') ? [{ tag: node.text, textSpan: { start, length: node.text.length } }] : [];
+    }
+    if (!SelectorMethods.includes(method)) { return []; }
+    const tags: { tag: string, textSpan: ts.TextSpan }[] = [];
+    const pattern = /(^|[\s>+~,(])([a-z][a-z0-9]*(?:-[a-z0-9]+)+)(?![\w-])/g;
+    let match: RegExpExecArray;
+    while ((match = pattern.exec(node.text))) {
+        tags.push({ tag: match[2], textSpan: { start: start + match.index + match[1].length, length: match[2].length } });
+    }
+    return tags;
+}
+
+/** Finds a custom element tag under the cursor: a `@Component` tag literal, a `@Prop({ connect })` tag, a DOM API string or a JSX tag name */
+export function getTagAtPosition(sourceFile: ts.SourceFile, position: number): { tag: string, textSpan: ts.TextSpan } | undefined {
+    const node = findNode(sourceFile, position);
+    if (!node) { return undefined; }
+    if (isComponentTagLiteral(node) || isConnectTagLiteral(node)) {
+        return { tag: node.text, textSpan: getStringSpan(node) };
+    }
+    const domTag = getDomApiTags(node).find(({ textSpan }) => position >= textSpan.start && position <= textSpan.start + textSpan.length);
+    if (domTag) { return domTag; }
+    const element = node.parent;
+    if ((isJsxTagElement(element) || ts.isJsxClosingElement(element)) && element.tagName === node && node.getText().includes('-')) {
+        return { tag: node.getText(), textSpan: { start: node.getStart(), length: node.getWidth() } };
+    }
+}
+
+/**
+ * Every place `tag` is spelled out in the project: `@Component` tag literals, JSX tag names,
+ * `@Prop({ connect })` tags, DOM API strings, HTML markup inside strings and
+ * `HTMLElementTagNameMap`/`JSX.IntrinsicElements` entries. Files under `node_modules` are skipped.
+ */
+export function findTagLocations(program: ts.Program, tag: string): TagLocation[] {
+    const locations: TagLocation[] = [];
+    program.getSourceFiles().forEach((sourceFile) => {
+        if (sourceFile.fileName.includes('/node_modules/') || sourceFile.text.indexOf(tag) === -1) { return; }
+        const fileName = sourceFile.fileName;
+
+        function visit(node: ts.Node) {
+            if (isComponentTagLiteral(node) && node.text === tag) {
+                locations.push({ fileName, textSpan: getStringSpan(node), kind: 'component' });
+            } else if (isConnectTagLiteral(node) && node.text === tag) {
+                locations.push({ fileName, textSpan: getStringSpan(node), kind: 'connect' });
+            } else if (isStringLike(node)) {
+                if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+                    getDomApiTags(node).filter(found => found.tag === tag).forEach(({ textSpan }) => locations.push({ fileName, textSpan, kind: 'dom' }));
+                }
+                findHtmlTags(node).filter(found => found.tag === tag).forEach(({ textSpan }) => locations.push({ fileName, textSpan, kind: 'html' }));
+            } else if ((isJsxTagElement(node) || ts.isJsxClosingElement(node)) && node.tagName.getText() === tag) {
+                locations.push({ fileName, textSpan: { start: node.tagName.getStart(), length: node.tagName.getWidth() }, kind: 'jsx' });
+            } else if (ts.isInterfaceDeclaration(node) && TagMapInterfaces.includes(node.name.text)) {
+                node.members
+                    .filter(member => member.name && ts.isStringLiteral(member.name) && member.name.text === tag)
+                    .forEach(member => locations.push({ fileName, textSpan: getStringSpan(member.name as ts.StringLiteral), kind: 'declaration' }));
+            }
+            ts.forEachChild(node, visit);
+        }
+        visit(sourceFile);
+    });
+    return locations;
+}
+
+/** Every JSX opening or self-closing element for `tag` in the project, excluding `node_modules` */
+export function findJsxElements(program: ts.Program, tag: string): JsxTagElement[] {
+    const elements: JsxTagElement[] = [];
+    program.getSourceFiles().forEach((sourceFile) => {
+        if (sourceFile.isDeclarationFile || sourceFile.fileName.includes('/node_modules/') || sourceFile.text.indexOf(tag) === -1) { return; }
+        function visit(node: ts.Node) {
+            if (isJsxTagElement(node) && node.tagName.getText() === tag) { elements.push(node); }
+            ts.forEachChild(node, visit);
+        }
+        visit(sourceFile);
+    });
+    return elements;
+}
@@ -0,0 +1,49 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+
+export function getNewLine(sourceFile: ts.SourceFile): string {
+    return sourceFile.text.indexOf('\r\n') > -1 ? '\r\n' : '\n';
+}
+
+export function getLineIndentation(sourceFile: ts.SourceFile, position: number): string {
+    const { line } = ts.getLineAndCharacterOfPosition(sourceFile, position);
+    const lineStart = ts.getPositionOfLineAndCharacter(sourceFile, line, 0);
+    const match = /^[ \t]*/.exec(sourceFile.text.slice(lineStart, position));
+    return match ? match[0] : '';
+}
+
+export function getMemberIndentation(classNode: ts.ClassLikeDeclaration): { indent: string, unit: string } {
+    const sourceFile = classNode.getSourceFile();
+    const classIndent = getLineIndentation(sourceFile, classNode.getStart());
+    const member = classNode.members[0];
+    const indent = member ? getLineIndentation(sourceFile, member.getStart()) : `${classIndent}    `;
+    const unit = indent.length > classIndent.length ? indent.slice(classIndent.length) : '    ';
+    return { indent: indent || unit, unit };
+}
+
+/**
+ * Returns the text changes needed to make `names` available as named imports from `moduleName`,
+ * extending an existing import declaration when possible.
+ */
+export function addNamedImports(sourceFile: ts.SourceFile, moduleName: string, names: string[]): ts.TextChange[] {
+    const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+    const existing = imports.find(decl => ts.isStringLiteral(decl.moduleSpecifier) && decl.moduleSpecifier.text === moduleName && !!decl.importClause && !!decl.importClause.namedBindings && ts.isNamedImports(decl.importClause.namedBindings));
+
+    if (existing) {
+        const namedImports = existing.importClause.namedBindings as ts.NamedImports;
+        const missing = names.filter(name => !namedImports.elements.some(el => el.name.text === name));
+        if (!missing.length) { return []; }
+        const last = namedImports.elements[namedImports.elements.length - 1];
+        return [{
+            span: { start: last ? last.getEnd() : namedImports.getStart() + 1, length: 0 },
+            newText: (last ? ', ' : ' ') + missing.join(', ') + (last ? '' : ' ')
+        }];
+    }
+
+    const newLine = getNewLine(sourceFile);
+    const start = imports.length ? imports[imports.length - 1].getEnd() : 0;
+    const statement = `import { ${names.join(', ')} } from '${moduleName}';`;
+    return [{
+        span: { start, length: 0 },
+        newText: imports.length ? `${newLine}${statement}` : `${statement}${newLine}`
+    }];
+}
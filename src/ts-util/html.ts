@@ -0,0 +1,144 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { findNode, isTagged } from './index';
+
+/** Plain strings and template literal parts, which may hold HTML markup such as `innerHTML` values */
+export type StringLikeNode = ts.StringLiteral | ts.NoSubstitutionTemplateLiteral | ts.TemplateHead | ts.TemplateMiddle | ts.TemplateTail;
+
+const CustomElementTagPattern = /<\/?([a-z][a-z0-9]*(?:-[a-z0-9]+)+)/g;
+
+export function isStringLike(node: ts.Node): node is StringLikeNode {
+    return !!node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateHead(node) || ts.isTemplateMiddle(node) || ts.isTemplateTail(node));
+}
+
+/** The string under the cursor, excluding positions on its delimiters */
+export function getStringAt(sourceFile: ts.SourceFile, position: number): StringLikeNode | undefined {
+    const node = findNode(sourceFile, position);
+    return isStringLike(node) && position > node.getStart() ? node : undefined;
+}
+
+/** The string or template literal a string part belongs to */
+export function getLiteral(node: StringLikeNode): ts.Expression {
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) { return node; }
+    return ts.isTemplateHead(node) ? node.parent : node.parent.parent;
+}
+
+function getAccessedName(node: ts.Node) {
+    return ts.isPropertyAccessExpression(node) ? node.name.text : undefined;
+}
+
+/** Whether a literal is markup handed to the DOM: assigned to `innerHTML`/`outerHTML` or passed to `insertAdjacentHTML()` */
+function isDomMarkupLiteral(literal: ts.Expression) {
+    const value = isTagged(literal, 'html') ? literal.parent as ts.TaggedTemplateExpression : literal;
+    const parent = value.parent;
+    if (parent && ts.isBinaryExpression(parent)) {
+        const assigns = parent.operatorToken.kind === ts.SyntaxKind.EqualsToken || parent.operatorToken.kind === ts.SyntaxKind.PlusEqualsToken;
+        return assigns && parent.right === value && ['innerHTML', 'outerHTML'].includes(getAccessedName(parent.left));
+    }
+    return !!parent && ts.isCallExpression(parent) && getAccessedName(parent.expression) === 'insertAdjacentHTML' && parent.arguments[1] === value;
+}
+
+/** The string under the cursor when it is markup assigned to `innerHTML`/`outerHTML` or passed to `insertAdjacentHTML()` */
+export function getDomMarkupAt(sourceFile: ts.SourceFile, position: number): StringLikeNode | undefined {
+    const node = getStringAt(sourceFile, position);
+    return node && isDomMarkupLiteral(getLiteral(node)) ? node : undefined;
+}
+
+/** Custom element tag names spelled in HTML markup inside a string, in start and end tags, e.g. both `my-card`s in `'<my-card></my-card>'` */
+export function findHtmlTags(node: StringLikeNode): { tag: string, textSpan: ts.TextSpan }[] {
+    const text = node.getText();
+    const pattern = new RegExp(CustomElementTagPattern.source, 'g');
+    const tags: { tag: string, textSpan: ts.TextSpan }[] = [];
+    let match: RegExpExecArray;
+    while ((match = pattern.exec(text))) {
+        const start = node.getStart() + match.index + match[0].length - match[1].length;
+        tags.push({ tag: match[1], textSpan: { start, length: match[1].length } });
+    }
+    return tags;
+}
+
+/** A custom element tag name spelled in HTML markup inside a string, e.g. `my-card` in `'<my-card open>'` */
+export function getHtmlTagAt(sourceFile: ts.SourceFile, position: number): { tag: string, textSpan: ts.TextSpan } | undefined {
+    const node = getStringAt(sourceFile, position);
+    return node && findHtmlTags(node).find(({ textSpan }) => position >= textSpan.start && position <= textSpan.start + textSpan.length);
+}
+
+/** Span of the partial tag name being typed after `<` in an HTML string, or `undefined` when not completing a tag */
+export function getHtmlTagCompletionSpan(sourceFile: ts.SourceFile, position: number): ts.TextSpan | undefined {
+    const node = getStringAt(sourceFile, position);
+    if (!node) { return undefined; }
+    const before = sourceFile.text.slice(node.getStart(), position);
+    const match = /<\/?([a-z][a-z0-9-]*)?$/.exec(before);
+    return match ? { start: position - (match[1] || '').length, length: (match[1] || '').length } : undefined;
+}
+
+export interface HtmlAttribute {
+    name: string,
+    textSpan: ts.TextSpan,
+    /** `undefined` for a bare attribute such as `<my-card open>` */
+    value?: string,
+    /** Span of the value without its quotes */
+    valueSpan?: ts.TextSpan
+}
+
+export interface HtmlElement {
+    tag: string,
+    textSpan: ts.TextSpan,
+    attributes: HtmlAttribute[]
+}
+
+/**
+ * Custom element start tags spelled in HTML markup inside a string, with their attributes. Markup
+ * split by template substitutions is only read up to the substitution.
+ */
+export function getHtmlElements(node: StringLikeNode): HtmlElement[] {
+    const text = node.getText();
+    const offset = node.getStart();
+    const elements: HtmlElement[] = [];
+    const elementPattern = /<([a-z][a-z0-9]*(?:-[a-z0-9]+)+)((?:\s+[^\s=/>"']+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>"']+))?)*)\s*\/?(?=>|\$\{|[`'"]$)/g;
+    let match: RegExpExecArray;
+    while ((match = elementPattern.exec(text))) {
+        const attributesStart = match.index + 1 + match[1].length;
+        const attributes: HtmlAttribute[] = [];
+        const attributePattern = /([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>"']+)))?/g;
+        let attr: RegExpExecArray;
+        while ((attr = attributePattern.exec(match[2]))) {
+            const start = offset + attributesStart + attr.index;
+            const value = [attr[2], attr[3], attr[4]].find(v => v !== undefined);
+            const valueStart = value === undefined ? undefined : start + attr[0].length - value.length - (attr[4] === undefined ? 1 : 0);
+            attributes.push({
+                name: attr[1],
+                textSpan: { start, length: attr[1].length },
+                value,
+                valueSpan: value === undefined ? undefined : { start: valueStart, length: value.length }
+            });
+        }
+        elements.push({ tag: match[1], textSpan: { start: offset + match.index + 1, length: match[1].length }, attributes });
+    }
+    return elements;
+}
+
+/** The attribute whose quoted value is being typed in HTML markup inside a string, e.g. `size` in `'<my-card size="l|'` */
+export function getHtmlAttributeValueContext(sourceFile: ts.SourceFile, position: number): { tag: string, attribute: string, replacementSpan: ts.TextSpan } | undefined {
+    const node = getStringAt(sourceFile, position);
+    if (!node) { return undefined; }
+    const before = sourceFile.text.slice(node.getStart(), position);
+    const match = /<([a-z][a-z0-9]*(?:-[a-z0-9]+)+)\s[^<>]*?([^\s=/>"']+)\s*=\s*(["'])([^"']*)$/.exec(before);
+    if (!match) { return undefined; }
+    const after = /^[^"'<>]*/.exec(sourceFile.text.slice(position, node.getEnd()))[0];
+    return { tag: match[1], attribute: match[2], replacementSpan: { start: position - match[4].length, length: match[4].length + after.length } };
+}
+
+/** The attribute name being typed in a custom element start tag in HTML markup inside a string, e.g. `'<my-card open s|'` */
+export function getHtmlAttributeNameContext(sourceFile: ts.SourceFile, position: number): { tag: string, present: string[], replacementSpan: ts.TextSpan } | undefined {
+    const node = getStringAt(sourceFile, position);
+    if (!node) { return undefined; }
+    const before = sourceFile.text.slice(node.getStart(), position);
+    const match = /<([a-z][a-z0-9]*(?:-[a-z0-9]+)+)((?:\s+[^\s=/>"']+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>"']+))?)*)\s+([^\s=/>"'<]*)$/.exec(before);
+    if (!match) { return undefined; }
+    const present: string[] = [];
+    const attributePattern = /([^\s=/>"']+)(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>"']+))?/g;
+    let attr: RegExpExecArray;
+    while ((attr = attributePattern.exec(match[2]))) { present.push(attr[1]); }
+    const after = /^[^\s=/>"'<`$]*/.exec(sourceFile.text.slice(position, node.getEnd()))[0];
+    return { tag: match[1], present, replacementSpan: { start: position - match[3].length, length: match[3].length + after.length } };
+}
@@ -30,4 +30,17 @@ export function isTagged(node: ts.Node, condition: TagCondition) {
     if (node.parent.kind !== ts.SyntaxKind.TaggedTemplateExpression) return false;
     const tagNode = node.parent as ts.TaggedTemplateExpression;
     return tagNode.tag.getText() === condition;
-}
\ No newline at end of file
+}
+
+/** The object literal the cursor is typing a key of, along with the key being typed */
+export function getObjectLiteralAt(sourceFile: ts.SourceFile, position: number): { literal: ts.ObjectLiteralExpression, property?: ts.ObjectLiteralElementLike, replacementSpan?: ts.TextSpan } | undefined {
+    const node = findNode(sourceFile, position);
+    if (node && ts.isObjectLiteralExpression(node)) { return { literal: node }; }
+
+    const before = position > 0 ? findNode(sourceFile, position - 1) : undefined;
+    const name = before && (ts.isIdentifier(before) || ts.isStringLiteral(before)) && before.getEnd() === position ? before : undefined;
+    const property = name && name.parent;
+    if (property && (ts.isShorthandPropertyAssignment(property) || ts.isPropertyAssignment(property)) && property.name === name && ts.isObjectLiteralExpression(property.parent)) {
+        return { literal: property.parent, property, replacementSpan: { start: name.getStart(), length: name.getWidth() } };
+    }
+}
@@ -0,0 +1,74 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { findNode } from './index';
+
+export type JsxTagElement = ts.JsxOpeningElement | ts.JsxSelfClosingElement;
+
+export interface JsxCompletionContext {
+    kind: 'tag' | 'attribute' | 'text',
+    element?: JsxTagElement,
+    replacementSpan: ts.TextSpan
+}
+
+export function isJsxTagElement(node: ts.Node): node is JsxTagElement {
+    return !!node && (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node));
+}
+
+export function getJsxTagName(element: JsxTagElement): string {
+    return element.tagName.getText();
+}
+
+export function getJsxAttributeNames(element: JsxTagElement): string[] {
+    return element.attributes.properties
+        .filter(ts.isJsxAttribute)
+        .map(attr => attr.name.text);
+}
+
+/** Whether an element is self-closing or already has its own closing tag, never true for a bare `<` */
+export function hasClosingTag(element: JsxTagElement): boolean {
+    if (element.tagName.getWidth() === 0) { return false; }
+    if (ts.isJsxSelfClosingElement(element)) { return true; }
+    const closing = element.parent.closingElement;
+    return !!closing && closing.tagName.getWidth() > 0 && closing.tagName.getText() === element.tagName.getText();
+}
+
+function getWordSpan(sourceFile: ts.SourceFile, position: number): ts.TextSpan {
+    let start = position;
+    while (start > 0 && /[\w-]/.test(sourceFile.text[start - 1])) { start--; }
+    return { start, length: position - start };
+}
+
+/**
+ * Classifies a completion position inside JSX as a tag name, an attribute name, or plain text
+ * between elements, along with the span a completion should replace.
+ */
+export function getJsxCompletionContext(sourceFile: ts.SourceFile, position: number): JsxCompletionContext | undefined {
+    const before = position > 0 ? findNode(sourceFile, position - 1) : undefined;
+    const at = findNode(sourceFile, position);
+    const replaceNode = (node: ts.Node) => ({ start: node.getStart(), length: node.getWidth() });
+
+    if (before && ts.isIdentifier(before) && before.getEnd() === position) {
+        if (isJsxTagElement(before.parent) && before.parent.tagName === before) {
+            return { kind: 'tag', element: before.parent, replacementSpan: replaceNode(before) };
+        }
+        if (ts.isJsxAttribute(before.parent) && before.parent.name === before) {
+            return { kind: 'attribute', element: before.parent.parent.parent, replacementSpan: replaceNode(before) };
+        }
+    }
+
+    const element = [at, before].find(isJsxTagElement) as JsxTagElement;
+    if (element) {
+        if (element.tagName.getWidth() === 0 && sourceFile.text[position - 1] === '<') {
+            return { kind: 'tag', element, replacementSpan: { start: position, length: 0 } };
+        }
+        const insideAttribute = element.attributes.properties.some(attr => position > attr.getStart() && position < attr.getEnd());
+        const closingLength = ts.isJsxSelfClosingElement(element) ? 2 : 1;
+        if (position > element.tagName.getEnd() && position <= element.getEnd() - closingLength && !insideAttribute) {
+            return { kind: 'attribute', element, replacementSpan: { start: position, length: 0 } };
+        }
+    }
+
+    const text = [at, before].find(node => node && ts.isJsxText(node));
+    if (text) {
+        return { kind: 'text', replacementSpan: getWordSpan(sourceFile, position) };
+    }
+}
@@ -0,0 +1,40 @@
+// Minimal POSIX-style path helpers for the forward-slash file names tsserver hands to plugins
+
+export function dirname(path: string): string {
+    const i = path.lastIndexOf('/');
+    return i > 0 ? path.slice(0, i) : i === 0 ? '/' : '.';
+}
+
+export function basename(path: string): string {
+    return path.slice(path.lastIndexOf('/') + 1);
+}
+
+export function normalize(path: string): string {
+    const absolute = path.startsWith('/');
+    const parts: string[] = [];
+    path.split('/').forEach((part) => {
+        if (!part || part === '.') { return; }
+        if (part === '..' && parts.length && parts[parts.length - 1] !== '..') { parts.pop(); }
+        else if (part !== '..' || !absolute) { parts.push(part); }
+    });
+    return (absolute ? '/' : '') + parts.join('/');
+}
+
+export function resolve(from: string, to: string): string {
+    return normalize(to.startsWith('/') ? to : `${from}/${to}`);
+}
+
+/** Relative path from directory `from` to file `to`, always starting with `./` or `../` */
+export function relative(from: string, to: string): string {
+    const fromParts = normalize(from).split('/').filter(x => x);
+    const toParts = normalize(to).split('/').filter(x => x);
+    let common = 0;
+    while (common < fromParts.length && common < toParts.length && fromParts[common] === toParts[common]) { common++; }
+    const up = fromParts.slice(common).map(() => '..');
+    const result = [...up, ...toParts.slice(common)].join('/');
+    return up.length ? result : `./${result}`;
+}
+
+export function isWithin(path: string, dir: string): boolean {
+    return path === dir || path.startsWith(dir.endsWith('/') ? dir : `${dir}/`);
+}
@@ -29,4 +29,53 @@ export function isString(t: ts.Type) {
         return !!(t.flags & (ts.TypeFlags.String | ts.TypeFlags.StringLike | ts.TypeFlags.StringLiteral));
     }
     return false;
-}
\ No newline at end of file
+}
+
+function getTypeKind(t: ts.Type) {
+    if (isString(t)) { return 'string'; }
+    if (isNumber(t)) { return 'number'; }
+    if (isBoolean(t)) { return 'boolean'; }
+    if (t.flags & ts.TypeFlags.ESSymbolLike) { return 'symbol'; }
+    if (t.flags & ts.TypeFlags.Object) { return 'object'; }
+    return undefined;
+}
+
+const isLiteral = (t: ts.Type) => !!(t.flags & (ts.TypeFlags.StringLiteral | ts.TypeFlags.NumberLiteral | ts.TypeFlags.BooleanLiteral));
+const isOptional = (symbol: ts.Symbol) => !!(symbol.flags & ts.SymbolFlags.Optional);
+
+/**
+ * Approximates whether `source` is assignable to `target`, as the type checker of this TypeScript
+ * version does not expose assignability. Only clear mismatches return `false`: different kinds of
+ * primitives, literals outside of the target, objects missing required properties and instances
+ * of the same generic type with mismatched type arguments. Anything else is treated as assignable.
+ */
+export function isProbablyAssignable(checker: ts.TypeChecker, source: ts.Type, target: ts.Type, depth: number = 2): boolean {
+    const unchecked = ts.TypeFlags.Any | ts.TypeFlags.TypeParameter | ts.TypeFlags.Never | ts.TypeFlags.Undefined | ts.TypeFlags.Null | ts.TypeFlags.Intersection | ts.TypeFlags.Index | ts.TypeFlags.IndexedAccess | ts.TypeFlags.Conditional;
+    if (depth < 0 || (source.flags & unchecked) || (target.flags & unchecked)) { return true; }
+    if (source.flags & ts.TypeFlags.Union) { return (source as ts.UnionType).types.every(t => isProbablyAssignable(checker, t, target, depth)); }
+    if (target.flags & ts.TypeFlags.Union) { return (target as ts.UnionType).types.some(t => isProbablyAssignable(checker, source, t, depth)); }
+
+    const sourceKind = getTypeKind(source);
+    const targetKind = getTypeKind(target);
+    if (!sourceKind || !targetKind) { return true; }
+    if (targetKind !== 'object') {
+        if (sourceKind !== targetKind) { return false; }
+        return !isLiteral(target) || (isLiteral(source) && checker.typeToString(source) === checker.typeToString(target));
+    }
+
+    const sourceReference = source as ts.TypeReference;
+    const targetReference = target as ts.TypeReference;
+    if (sourceKind === 'object' && sourceReference.target && sourceReference.target === targetReference.target) {
+        const sourceArguments = sourceReference.typeArguments || [];
+        return (targetReference.typeArguments || []).every((t, i) => !sourceArguments[i] || isProbablyAssignable(checker, sourceArguments[i], t, depth - 1));
+    }
+    const sourceProperties = checker.getPropertiesOfType(source);
+    return checker.getPropertiesOfType(target).filter(property => !isOptional(property)).every((property) => {
+        const sourceProperty = sourceProperties.find(p => p.name === property.name);
+        if (!sourceProperty) { return false; }
+        if (!property.valueDeclaration || !sourceProperty.valueDeclaration) { return true; }
+        const targetType = checker.getTypeOfSymbolAtLocation(property, property.valueDeclaration);
+        const sourceType = checker.getTypeOfSymbolAtLocation(sourceProperty, sourceProperty.valueDeclaration);
+        return isProbablyAssignable(checker, sourceType, targetType, depth - 1);
+    });
+}
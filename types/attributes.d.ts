@@ -0,0 +1,34 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { StencilConstants } from './constants';
+/** How a component is being used: JSX sets properties by name, HTML markup sets attributes */
+export declare type Markup = 'jsx' | 'html';
+/** A prop as it can be set from markup */
+export interface PropAttribute {
+    name: string;
+    /** `undefined` when the prop has no attribute, e.g. `connect`/`context` props */
+    attribute: string;
+    type: ts.Type;
+}
+export interface AttributeUsage {
+    name: string;
+    textSpan: ts.TextSpan;
+    /** Literal value, `undefined` for a bare attribute such as `<my-card open>` */
+    value?: string;
+    /** JSX `{expression}` values are left to the type checker */
+    isExpression?: boolean;
+}
+export interface AttributeProblem {
+    code: 'UnknownAttribute' | 'InvalidAttributeValue' | 'AttributeNameCase';
+    textSpan: ts.TextSpan;
+    messageText: string;
+}
+/** String and number literal members of a prop type, e.g. `small`, `large` for `'small' | 'large'` */
+export declare function getLiteralValues(type: ts.Type): string[];
+/** Values worth suggesting for a prop: `true`/`false` for booleans and the members of literal unions */
+export declare function getValueCompletions(type: ts.Type): string[];
+/**
+ * Checks the attributes set on a component's tag against its props and events: unknown names,
+ * prop names spelled with the wrong case for the markup, and literal values Stencil cannot coerce
+ * to the prop's type.
+ */
+export declare function validateAttributes(markup: Markup, tag: string, props: PropAttribute[], eventAttributes: string[], usages: AttributeUsage[], checker: ts.TypeChecker, stencil: StencilConstants): AttributeProblem[];
@@ -0,0 +1,20 @@
+export interface CollectionComponent {
+    tag: string;
+    packageName: string;
+    fileName: string;
+}
+export interface CollectionHost {
+    readFile(path: string): string | undefined;
+    fileExists(path: string): boolean;
+}
+/**
+ * Finds the components shipped by Stencil collections installed in `node_modules`. A package
+ * counts as a collection when its package.json has a `collection` entry or it is listed in
+ * `extraPackages`.
+ */
+export declare function getCollectionComponents(host: CollectionHost, projectDir: string, extraPackages?: string[]): CollectionComponent[];
+/**
+ * Major version of the project's `@stencil/core`: the installed package when present, otherwise
+ * the first number in the dependency range from the project's package.json.
+ */
+export declare function getStencilVersion(host: CollectionHost, projectDir: string): number | undefined;
@@ -0,0 +1,130 @@
+import { MetaCategory } from './meta';
+/** Major `@stencil/core` version assumed when the project's version cannot be detected */
+export declare const LatestStencilVersion = 4;
+/**
+ * Known Stencil APIs for one major version of `@stencil/core`. Stencil 0.x components used
+ * `hostData()`, `componentDidUnload()` and `@Prop({ reflectToAttr, context, connect })`; 1.x
+ * introduced the custom element callbacks, `<Host>` and `reflect` and deprecated the former,
+ * and 2.x removed them.
+ */
+export declare class StencilConstants {
+    version: number;
+    constructor(version?: number);
+    Decorators: string[];
+    /** Paths relative to the configured `docsUrl` */
+    DecoratorDocs: {
+        'Component': string;
+        'Prop': string;
+        'State': string;
+        'Element': string;
+        'Event': string;
+        'Listen': string;
+        'Method': string;
+        'Watch': string;
+        'AttachInternals'?: undefined;
+        'Host'?: undefined;
+    } | {
+        'Component': string;
+        'Prop': string;
+        'State': string;
+        'Element': string;
+        'Event': string;
+        'Listen': string;
+        'Method': string;
+        'Watch': string;
+        'AttachInternals': string;
+        'Host': string;
+    };
+    /** Non-decorator exports of `@stencil/core` that are documented on hover */
+    CoreExports: string[];
+    CoreExportDocs: {
+        'Host': string;
+    };
+    ComponentBuiltinMethods: string[];
+    ComponentBuiltinMethodDocs: {
+        'render': string;
+        'hostData': string;
+    };
+    ComponentLifecycleMethods: string[];
+    ComponentLifecycleDocs: {
+        'connectedCallback': string;
+        'disconnectedCallback': string;
+        'componentWillLoad': string;
+        'componentDidLoad': string;
+        'componentShouldUpdate': string;
+        'componentWillRender': string;
+        'componentDidRender': string;
+        'componentWillUpdate': string;
+        'componentDidUpdate': string;
+        'componentDidUnload': string;
+    };
+    /** Deprecated members and decorators of this version, with what to use instead */
+    DeprecatedApis: {
+        [name: string]: string;
+    };
+    /** Options each decorator accepts, mapped to the kind of value inserted when completing them */
+    DecoratorOptions: {
+        [decorator: string]: {
+            [option: string]: 'string' | 'boolean' | 'array' | 'object';
+        };
+    };
+    /** Keys Stencil provides to `@Prop({ context })` before 2.x */
+    ContextKeys: string[];
+    /** Values offered for `@Listen({ target })` */
+    ListenTargets: string[];
+    /** Common DOM events offered inside `@Listen('')` after the project's own events */
+    DomEvents: string[];
+    /** Deprecated `@Prop()` options of this version, with what to use instead */
+    DeprecatedPropOptions: {
+        [name: string]: string;
+    };
+    /** Why `name` (a member, decorator or, with `propOption`, a `@Prop()` option) is deprecated in this version */
+    getDeprecation(name: string, propOption?: boolean): string | undefined;
+    /** Top-level keys of `hostData()` and attributes of `<Host>` besides ARIA attributes */
+    HostAttributes: string[];
+    /** ARIA attributes mapped to their enumerated values, empty for free-form values */
+    AriaAttributes: {
+        [name: string]: string[];
+    };
+    AriaRoles: string[];
+    /** Attributes valid on any element besides `aria-*`, `data-*` and event handlers */
+    GlobalAttributes: string[];
+    DiagnosticSource: string;
+    DiagnosticCodes: {
+        'UnknownWatchTarget': number;
+        'InvalidListenHandler': number;
+        'UntypedEventEmitter': number;
+        'UnexportedComponent': number;
+        'InvalidStyles': number;
+        'UnknownAttribute': number;
+        'InvalidAttributeValue': number;
+        'AttributeNameCase': number;
+        'UnknownDecoratorOption': number;
+        'RenderStateChange': number;
+        'ImmutablePropAssignment': number;
+        'UnawaitedMethodCall': number;
+        'InvalidEventDetail': number;
+        'IncompatibleEventHandler': number;
+        'UnknownSlot': number;
+        'UnregisteredSpecComponent': number;
+    };
+    StyleSelectors: string[];
+    CodeFixes: {
+        'AddProp': string;
+        'AddState': string;
+        'ChangeWatchTarget': string;
+    };
+    /** Groups of the document outline in display order, with the member categories listed under each */
+    OutlineGroups: {
+        label: string;
+        categories: MetaCategory[];
+    }[];
+    Refactors: {
+        'DecorateMember': string;
+        'AddEvent': string;
+        'AddLifecycle': string;
+        'SyncComponentName': string;
+        'GenerateDocs': string;
+    };
+}
+export declare const Stencil: StencilConstants;
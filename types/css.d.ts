@@ -0,0 +1,39 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { TextDocument } from 'vscode-languageserver-types';
+/** A stylesheet embedded in a TypeScript file, e.g. the `styles` literal of `@Component` */
+export interface StyleRegion {
+    node: ts.Node;
+    start: number;
+    document: TextDocument;
+}
+export interface StyleCompletionOptions {
+    /** Extra selectors offered at the top level of the stylesheet, e.g. `:host` */
+    selectors: string[];
+    /** Custom properties offered as `var(--name)` inside declarations */
+    customProperties: string[];
+    /** Shadow parts of the project's components, offered inside `::part()` */
+    parts: {
+        tag: string;
+        name: string;
+    }[];
+}
+/**
+ * Resolves the `styles` literal of a `@Component` decorator containing `node`, including
+ * templates tagged with `css`. Substitutions are blanked out so offsets stay aligned.
+ */
+export declare function getStyleRegion(node: ts.Node): StyleRegion | undefined;
+export declare function getStyleRegions(sourceFile: ts.SourceFile): StyleRegion[];
+/** Collects the custom properties (`--name`) declared in a stylesheet */
+export declare function getCustomProperties(text: string): string[];
+export declare function getStyleCompletions(region: StyleRegion, position: number, options: StyleCompletionOptions): ts.CompletionInfo;
+export declare function getStyleQuickInfo(region: StyleRegion, position: number): ts.QuickInfo | undefined;
+export declare function getStyleDiagnostics(region: StyleRegion, code: number, source: string): ts.Diagnostic[];
+/** Custom properties documented in comments with Stencil's `@prop --name: Description` convention */
+export declare function getDocumentedCustomProperties(text: string): {
+    name: string;
+    description: string;
+}[];
+/** Every CSS property known to the CSS language service, e.g. `background-color` */
+export declare function getCssPropertyNames(): string[];
+/** Class names used in the selectors of a stylesheet, including `:host(.name)` */
+export declare function getClassSelectors(text: string): string[];
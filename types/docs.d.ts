@@ -0,0 +1,80 @@
+import { ComponentReference } from './reference';
+/** Text above this line of a component README is written by hand and kept when the docs are regenerated */
+export declare const AutoGeneratedMarker = "<!-- Auto Generated Below -->";
+/**
+ * Markdown README for a component in the layout of Stencil's `docs-readme` output target. The text
+ * of an `existing` README above the auto-generated marker is kept, otherwise the tag and the
+ * component's JSDoc are used as a heading.
+ */
+export declare function getComponentReadme(reference: ComponentReference, existing?: string): string;
+/**
+ * A [Custom Elements Manifest](https://github.com/webcomponents/custom-elements-manifest) for the
+ * given components with a tag, one module per file. `path` is the module path relative to the manifest.
+ */
+export declare function getCustomElementsManifest(components: {
+    path: string;
+    reference: ComponentReference;
+}[]): {
+    schemaVersion: string;
+    modules: {
+        kind: string;
+        path: string;
+        declarations: {
+            kind: string;
+            name: string;
+            tagName: string;
+            customElement: boolean;
+            attributes: ({
+                default: string;
+                name: string;
+                fieldName: string;
+                type: {
+                    text: string;
+                };
+            } | {
+                name: string;
+                fieldName: string;
+                type: {
+                    text: string;
+                };
+            })[];
+            members: ({
+                kind: string;
+                name: string;
+                type: {
+                    text: string;
+                };
+            } | {
+                kind: string;
+                name: string;
+                parameters: {
+                    name: string;
+                    type: {
+                        text: string;
+                    };
+                }[];
+                return: {
+                    type: {
+                        text: string;
+                    };
+                };
+            })[];
+            events: {
+                name: string;
+                type: {
+                    text: string;
+                };
+            }[];
+            slots: {
+                name: string;
+            }[];
+            cssParts: {
+                name: string;
+            }[];
+            cssProperties: {
+                name: string;
+            }[];
+        }[];
+        exports: any[];
+    }[];
+};
@@ -0,0 +1,65 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { JsxTagElement } from './ts-util/jsx';
+export interface ListenTarget {
+    literal: ts.StringLiteral;
+    eventName: string;
+    textSpan: ts.TextSpan;
+}
+/**
+ * Splits a `@Listen` argument into its event name and the span covering it, ignoring
+ * Stencil 0.x target prefixes such as `body:` or `window:`.
+ */
+export declare function parseListenTarget(literal: ts.StringLiteral): ListenTarget;
+export interface ListenDetails {
+    eventName: string;
+    /** `window`, `document`, `body` or `parent`; `undefined` when listening on the host element */
+    target: string;
+    passive: boolean;
+    capture: boolean;
+}
+/** Event and options of a `@Listen` decorator, reading the target from either the 0.x prefix or the `target` option */
+export declare function getListenDetails(decorator: ts.Decorator): ListenDetails | undefined;
+/** The `@Listen` argument under the cursor, if any */
+export declare function getListenTargetAt(sourceFile: ts.SourceFile, position: number): ListenTarget | undefined;
+/** Every `@Listen` decorator in the project listening for `eventName`, excluding `node_modules` */
+export declare function findListenTargets(program: ts.Program, eventName: string): ListenTarget[];
+/** JSX attribute name Stencil binds to a custom event, e.g. `onValueChange` for `valueChange` */
+export declare function toEventAttributeName(eventName: string): string;
+/** `on<EventName>` attributes for `eventName` on the given elements; spans cover the part after `on` */
+export declare function findEventAttributes(elements: JsxTagElement[], eventName: string): {
+    attribute: ts.JsxAttribute;
+    textSpan: ts.TextSpan;
+}[];
+/** The `this.<member>.emit(detail)` call `node` is, with the name of the emitting member */
+export declare function getEmitCall(node: ts.Node): {
+    call: ts.CallExpression;
+    memberName: string;
+} | undefined;
+/** The innermost `emit()` call whose argument list contains `position` */
+export declare function getEmitCallAt(sourceFile: ts.SourceFile, position: number): {
+    call: ts.CallExpression;
+    memberName: string;
+};
+/** The detail type `T` of an `@Event()` declared as `EventEmitter<T>`, or the default of a bare `EventEmitter` */
+export declare function getEmitterDetailType(member: ts.ClassElement, checker: ts.TypeChecker): ts.Type | undefined;
+/** The detail type of an `@Event()` as resolved by the checker, `any` when it cannot be resolved */
+export declare function getEmitterDetailTypeText(member: ts.ClassElement, checker: ts.TypeChecker): string;
+/** The `CustomEvent<T>` an `@Event()` dispatches, read from the return type of its emitter's `emit()` */
+export declare function getDispatchedEventType(member: ts.ClassElement, checker: ts.TypeChecker): ts.Type | undefined;
+/** Whether an event with this detail type may be emitted without an argument */
+export declare function isOptionalDetail(type: ts.Type): boolean;
+export interface EventPayloadProblem {
+    code: 'InvalidEventDetail' | 'IncompatibleEventHandler';
+    node: ts.Node;
+    messageText: string;
+}
+/**
+ * Checks the payloads of a component's events: the details passed to `this.<event>.emit()` against
+ * the `EventEmitter<T>` type, and the event parameter of its `@Listen` handlers against the
+ * `CustomEvent<T>` of the project events of that name, found through `getEmitters`. Handlers of
+ * events that are not declared in the project, such as DOM events, are not checked.
+ */
+export declare function getEventPayloadProblems(component: ts.ClassDeclaration, checker: ts.TypeChecker, getEmitters: (eventName: string) => {
+    className: string;
+    member: ts.ClassElement;
+}[]): EventPayloadProblem[];
@@ -0,0 +1,19 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+/**
+ * Where the cursor is within the host element's data: the `hostData()` return value in Stencil
+ * 0.x or the attributes of `<Host>` in 1.x and newer.
+ *
+ * - `attributes`: a top-level key or `<Host>` attribute
+ * - `class` / `style`: a key of the `class` or `style` object
+ * - `value`: the quoted value of the top-level `attribute`
+ */
+export interface HostCompletionContext {
+    kind: 'attributes' | 'class' | 'style' | 'value';
+    /** Keys or attributes already present, which should not be offered again */
+    present: string[];
+    /** Whether completions are JSX attributes rather than object keys */
+    jsx: boolean;
+    attribute?: string;
+    replacementSpan?: ts.TextSpan;
+}
+export declare function getHostCompletionContext(sourceFile: ts.SourceFile, position: number): HostCompletionContext | undefined;
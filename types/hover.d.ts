@@ -0,0 +1,12 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { StencilConstants } from './constants';
+import { ComponentReference } from './reference';
+/**
+ * Markdown summary of the Stencil decorator on a component member, shown in hovers and completion
+ * details. `returnsPromise` is only used for `@Method()` members.
+ */
+export declare function getMemberHover(member: ts.ClassElement, stencil: StencilConstants, returnsPromise?: boolean): string | undefined;
+/** Lines of a Markdown table, escaping pipes and line breaks in cells */
+export declare function markdownTable(headers: string[], rows: string[][]): string[];
+/** Markdown reference card for a component tag: its class and file, JSDoc and one table per kind of public API */
+export declare function getComponentHover(reference: ComponentReference, displayFileName: string): string;
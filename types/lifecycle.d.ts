@@ -0,0 +1,14 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { StencilConstants } from './constants';
+export interface LifecycleProblem {
+    code: 'RenderStateChange' | 'ImmutablePropAssignment' | 'UnawaitedMethodCall';
+    node: ts.Node;
+    messageText: string;
+}
+/**
+ * Checks a component for state changes on the render path, assignments to props that are not
+ * `mutable` and floating calls to its own `@Method()`s. Assignments during `render()` are followed
+ * into the component's own methods it calls; nested functions such as event handlers are skipped
+ * as they run later.
+ */
+export declare function getLifecycleProblems(component: ts.ClassDeclaration, stencil: StencilConstants): LifecycleProblem[];
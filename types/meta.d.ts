@@ -0,0 +1,90 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { StencilConstants } from './constants';
+export declare type MetaCategory = 'own property' | 'element' | 'state' | 'prop' | 'prop:connect' | 'prop:context' | 'watch' | 'event' | 'lifecycle' | 'listen' | 'method' | 'local method';
+export interface DocumentMeta {
+    className: string;
+    internalProperties: string[];
+    elements: string[];
+    states: string[];
+    propsConnect: string[];
+    propsContext: string[];
+    props: string[];
+    watched: {
+        prop: string;
+        handler: string;
+    }[];
+    events: string[];
+    lifecycle: string[];
+    listeners: {
+        events: string[];
+        handler: string;
+    }[];
+    methods: string[];
+    internalMethods: string[];
+}
+export interface ComponentMember {
+    name: string;
+    node: ts.ClassElement;
+}
+export interface ComponentMeta {
+    className: string;
+    fileName: string;
+    node: ts.ClassDeclaration;
+    tag: string;
+    styleUrl: string;
+    styleUrls: string[];
+    shadow: boolean;
+    props: ComponentMember[];
+    events: ComponentMember[];
+    methods: ComponentMember[];
+}
+export declare function hasDecoratorNamed(node: ts.Node, name: string): false | ts.Decorator;
+export declare function getDecoratorsNamed(node: ts.Node, name: string): ts.Decorator[];
+export declare function getDecoratorArgument(decorator: ts.Decorator, index?: number): ts.Expression;
+export declare function toName(member: ts.ClassElement): string;
+export declare function isComponentClass(node: ts.Node): node is ts.ClassDeclaration;
+export declare function createDocumentMeta(): DocumentMeta;
+/**
+ * Categorizes the members of one component class. `inherited` members, see `getInheritedMembers`,
+ * are categorized the same way as the class's own.
+ */
+export declare function gatherClassMeta(node: ts.ClassDeclaration, stencil?: StencilConstants, inherited?: ts.ClassElement[]): DocumentMeta;
+export declare function hasExtendsClause(node: ts.ClassDeclaration): boolean;
+/**
+ * Members a class inherits from base classes and mixins, resolved through the type checker so
+ * decorated members of an abstract base class or a mixin's class expression are found in any file.
+ * Members the class overrides are left out.
+ */
+export declare function getInheritedMembers(node: ts.ClassDeclaration, checker: ts.TypeChecker): ts.ClassElement[];
+export declare function getObjectLiteralProperty(node: ts.Node, name: string): ts.Expression;
+/**
+ * Reads a component's `@Component()` options and its props, events and methods. `inherited`
+ * members, see `getInheritedMembers`, come before the class's own members.
+ */
+export declare function gatherComponentMeta(node: ts.ClassDeclaration, inherited?: ts.ClassElement[]): ComponentMeta;
+/** The DOM event name an `@Event()` emits, honouring the `eventName` option. */
+export declare function getEventName(member: ts.ClassElement): string;
+export declare function toDashCase(value: string): string;
+/** `true`/`false` for a boolean literal option, `undefined` when it is missing or not a literal */
+export declare function getBooleanOption(options: ts.Node, name: string): boolean | undefined;
+export interface PropDetails {
+    /** Attribute the prop is bound to, or `undefined` for props that cannot be set from markup */
+    attribute: string;
+    mutable: boolean;
+    reflect: boolean;
+    defaultValue: string;
+    connect: string;
+    context: string;
+}
+/** Options of a `@Prop()`, accepting both the Stencil 0.x (`attr`, `reflectToAttr`) and 1.x+ (`attribute`, `reflect`) names */
+export declare function getPropDetails(member: ts.ClassElement): PropDetails;
+export interface EventDetails {
+    eventName: string;
+    /** Text of the `EventEmitter<T>` type argument, `any` when it is missing */
+    detailType: string;
+    bubbles: boolean;
+    composed: boolean;
+    cancelable: boolean;
+}
+/** Options of an `@Event()`; `bubbles`, `composed` and `cancelable` default to `true` like Stencil's */
+export declare function getEventDetails(member: ts.ClassElement): EventDetails;
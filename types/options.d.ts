@@ -0,0 +1,30 @@
+import { MetaCategory } from './meta';
+export declare type PluginFeature = 'completions' | 'quickInfo' | 'diagnostics' | 'codeFixes' | 'refactors' | 'navigation' | 'jsx' | 'styles';
+/**
+ * Options read from the plugin entry in `tsconfig.json`:
+ *
+ * ```json
+ * "plugins": [{ "name": "typescript-plugin-stencil", "hideBuiltinMethods": false, "features": { "styles": false } }]
+ * ```
+ */
+export interface PluginOptions {
+    /** Category order used to sort `this.` completions, new members and the outline */
+    sortOrder: MetaCategory[];
+    /** Removes `render`/`hostData` from `this.` completions */
+    hideBuiltinMethods: boolean;
+    /** Forces `experimentalDecorators` on for the project */
+    experimentalDecorators: boolean;
+    features: {
+        [feature in PluginFeature]: boolean;
+    };
+    /** Packages in `node_modules` to scan for components besides those marked as Stencil collections */
+    collections: string[];
+    /** Base URL for "Read More" links in hovers and completions */
+    docsUrl: string;
+}
+export declare const DefaultOptions: PluginOptions;
+/**
+ * Validates the raw plugin config against `PluginOptions`. Invalid settings are reported through
+ * `warn` and replaced by their defaults rather than failing plugin creation.
+ */
+export declare function parseOptions(config: any, warn: (message: string) => void): PluginOptions;
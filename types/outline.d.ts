@@ -0,0 +1,18 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+/** A component class and its members, in outline order, with the outline group of each */
+export interface OutlineComponent {
+    node: ts.ClassDeclaration;
+    tag: string;
+    /** Members without a `group` (e.g. `render()`) are listed after the groups */
+    members: {
+        node: ts.ClassElement;
+        group?: string;
+    }[];
+}
+/** Groups the members of component classes in a navigation tree and shows each component's tag on its class */
+export declare function groupNavigationTree(tree: ts.NavigationTree, components: OutlineComponent[]): ts.NavigationTree;
+/**
+ * Groups the members of component classes in navigation bar items. The bar only shows two levels,
+ * so each group becomes an item of the class, and a top-level item listing its members.
+ */
+export declare function groupNavigationBarItems(items: ts.NavigationBarItem[], components: OutlineComponent[]): ts.NavigationBarItem[];
@@ -0,0 +1,53 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { ComponentMeta } from './meta';
+export interface ReferenceEntry {
+    name: string;
+    description: string;
+}
+/** Public API of a component as seen from its markup, gathered from decorators, types and JSDoc */
+export interface ComponentReference {
+    tag: string;
+    className: string;
+    fileName: string;
+    description: string;
+    props: (ReferenceEntry & {
+        attribute: string;
+        type: string;
+        defaultValue: string;
+        reflect: boolean;
+    })[];
+    events: (ReferenceEntry & {
+        detailType: string;
+    })[];
+    methods: (ReferenceEntry & {
+        signature: string;
+        parameters: {
+            name: string;
+            type: string;
+        }[];
+        returnType: string;
+    })[];
+    /** Named after the event; `target` is `undefined` when listening on the host element */
+    listeners: (ReferenceEntry & {
+        target: string;
+        handler: string;
+    })[];
+    /** Named after the handler method */
+    watchers: (ReferenceEntry & {
+        props: string[];
+    })[];
+    slots: ReferenceEntry[];
+    parts: ReferenceEntry[];
+    customProperties: ReferenceEntry[];
+}
+/** Slots and shadow parts of a component: those documented with `@slot`/`@part`, followed by the ones only found in its JSX */
+export declare function getSlotsAndParts(node: ts.ClassDeclaration): {
+    slots: ReferenceEntry[];
+    parts: ReferenceEntry[];
+    hasDynamicSlots: boolean;
+};
+/**
+ * Gathers the reference for a component. `styleTexts` are the contents of its inline `styles` and
+ * style files, which provide the CSS custom properties.
+ */
+export declare function getComponentReference(component: ComponentMeta, checker: ts.TypeChecker, styleTexts: string[]): ComponentReference;
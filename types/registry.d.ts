@@ -0,0 +1,37 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { StencilConstants } from './constants';
+import { ComponentMeta, DocumentMeta } from './meta';
+/**
+ * Project-wide index of every `@Component` class.
+ *
+ * Entries are keyed by file name and reused for as long as the program hands back the same
+ * `SourceFile` object, so only files that actually changed are walked again.
+ */
+export declare class ComponentRegistry {
+    private getProgram;
+    private stencil;
+    private entries;
+    private program;
+    private inherited;
+    private inheritedProgram;
+    constructor(getProgram: () => ts.Program, stencil?: StencilConstants);
+    private createEntry;
+    private getEntry;
+    /** Brings the registry up to date with the current program, re-indexing changed files only. */
+    sync(): void;
+    /**
+     * Metadata of a component class and the members it inherits through an `extends` clause. As base
+     * classes may live in other files, these are resolved again whenever the program changes.
+     */
+    private getInheritedEntry;
+    /** Metadata of a component class, including the members it inherits when it extends another class */
+    getClassMeta(node: ts.ClassDeclaration): DocumentMeta;
+    /** Metadata of the component class containing `position`, empty outside of component classes */
+    getDocumentMetaAt(sourceFile: ts.SourceFile, position: number): DocumentMeta;
+    /** Adds inherited props, events and methods to components with an `extends` clause, like `getClassMeta` */
+    private withInherited;
+    getComponentsInFile(sourceFile: ts.SourceFile): ComponentMeta[];
+    getComponents(): ComponentMeta[];
+    getComponentByTag(tag: string): ComponentMeta;
+    getComponentByClassName(className: string): ComponentMeta;
+}
@@ -0,0 +1,29 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { JsxTagElement } from './ts-util/jsx';
+/** Slots and shadow parts found in a component's JSX; `''` is the default slot */
+export interface RenderedNames {
+    slots: string[];
+    parts: string[];
+    /** Whether a `<slot>` takes its name from an expression, so the slot names are not all known */
+    hasDynamicSlots: boolean;
+}
+export interface SlotProblem {
+    code: 'UnknownSlot';
+    node: ts.Node;
+    messageText: string;
+}
+/** The literal value of a JSX attribute, `''` for a bare attribute and `undefined` for an expression */
+export declare function getJsxAttributeValue(element: JsxTagElement, name: string): string | undefined;
+/**
+ * Reads the `<slot name>` elements and `part` attributes of the JSX in a component's methods, which
+ * covers `render()` as well as helpers such as `renderHeader()`.
+ */
+export declare function getRenderedNames(component: ts.ClassDeclaration): RenderedNames;
+/** The tag element a JSX element is a direct child of, which is the element whose slots it is placed in */
+export declare function getSlotHost(element: JsxTagElement): JsxTagElement | undefined;
+/**
+ * Checks the `slot` attributes of JSX children placed inside a component's tag against the slots
+ * it renders or documents, as returned by `getSlots` for the tag (`undefined` when it is not a
+ * project component).
+ */
+export declare function getSlotProblems(sourceFile: ts.SourceFile, getSlots: (tag: string) => RenderedNames | undefined): SlotProblem[];
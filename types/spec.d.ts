@@ -0,0 +1,19 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { StringLikeNode } from './ts-util/html';
+export interface SpecPageProblem {
+    code: 'UnregisteredSpecComponent';
+    textSpan: ts.TextSpan;
+    messageText: string;
+}
+/**
+ * The string under the cursor when it holds spec test markup: the `html` of `newSpecPage()`, the
+ * content of `page.setContent()` in E2E tests, or either written as an `html` tagged template.
+ */
+export declare function getSpecMarkupAt(sourceFile: ts.SourceFile, position: number): StringLikeNode | undefined;
+/**
+ * Checks that the project components used in the `html` of each `newSpecPage()` are listed in its
+ * `components`, as unlisted components are not defined and render as unknown elements.
+ * `getComponentTag` resolves an entry of `components` to its tag; calls with an entry it cannot
+ * resolve are skipped. `getClassName` returns the class of a project component's tag.
+ */
+export declare function getSpecPageProblems(sourceFile: ts.SourceFile, getComponentTag: (entry: ts.Expression) => string | undefined, getClassName: (tag: string) => string | undefined): SpecPageProblem[];
@@ -0,0 +1,2 @@
+/** The candidate closest to `value`, ignoring case, if any is close enough to be a likely typo */
+export declare function getClosestMatch(value: string, candidates: string[]): string;
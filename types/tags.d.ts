@@ -0,0 +1,33 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+import { JsxTagElement } from './ts-util/jsx';
+export interface TagLocation {
+    fileName: string;
+    textSpan: ts.TextSpan;
+    kind: 'component' | 'jsx' | 'declaration' | 'connect' | 'dom' | 'html';
+}
+/** The tag of a Stencil 0.x `@Prop({ connect: 'tag' })`, when `node` is one */
+export declare function isConnectTagLiteral(node: ts.Node): node is ts.StringLiteral;
+/** The `@Prop({ context: 'key' })` literal, when `node` is one */
+export declare function isContextKeyLiteral(node: ts.Node): node is ts.StringLiteral;
+export declare function getComponentTagLiteral(component: ts.ClassDeclaration): ts.StringLiteral | undefined;
+/**
+ * Tags named in the string argument of a DOM API such as `document.createElement('my-card')`,
+ * `customElements.whenDefined('my-card')` or `el.querySelector('my-list > my-card')`.
+ */
+export declare function getDomApiTags(node: ts.Node): {
+    tag: string;
+    textSpan: ts.TextSpan;
+}[];
+/** Finds a custom element tag under the cursor: a `@Component` tag literal, a `@Prop({ connect })` tag, a DOM API string or a JSX tag name */
+export declare function getTagAtPosition(sourceFile: ts.SourceFile, position: number): {
+    tag: string;
+    textSpan: ts.TextSpan;
+} | undefined;
+/**
+ * Every place `tag` is spelled out in the project: `@Component` tag literals, JSX tag names,
+ * `@Prop({ connect })` tags, DOM API strings, HTML markup inside strings and
+ * `HTMLElementTagNameMap`/`JSX.IntrinsicElements` entries. Files under `node_modules` are skipped.
+ */
+export declare function findTagLocations(program: ts.Program, tag: string): TagLocation[];
+/** Every JSX opening or self-closing element for `tag` in the project, excluding `node_modules` */
+export declare function findJsxElements(program: ts.Program, tag: string): JsxTagElement[];
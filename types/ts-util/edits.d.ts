@@ -0,0 +1,12 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+export declare function getNewLine(sourceFile: ts.SourceFile): string;
+export declare function getLineIndentation(sourceFile: ts.SourceFile, position: number): string;
+export declare function getMemberIndentation(classNode: ts.ClassLikeDeclaration): {
+    indent: string;
+    unit: string;
+};
+/**
+ * Returns the text changes needed to make `names` available as named imports from `moduleName`,
+ * extending an existing import declaration when possible.
+ */
+export declare function addNamedImports(sourceFile: ts.SourceFile, moduleName: string, names: string[]): ts.TextChange[];
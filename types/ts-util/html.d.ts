@@ -0,0 +1,52 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+/** Plain strings and template literal parts, which may hold HTML markup such as `innerHTML` values */
+export declare type StringLikeNode = ts.StringLiteral | ts.NoSubstitutionTemplateLiteral | ts.TemplateHead | ts.TemplateMiddle | ts.TemplateTail;
+export declare function isStringLike(node: ts.Node): node is StringLikeNode;
+/** The string under the cursor, excluding positions on its delimiters */
+export declare function getStringAt(sourceFile: ts.SourceFile, position: number): StringLikeNode | undefined;
+/** The string or template literal a string part belongs to */
+export declare function getLiteral(node: StringLikeNode): ts.Expression;
+/** The string under the cursor when it is markup assigned to `innerHTML`/`outerHTML` or passed to `insertAdjacentHTML()` */
+export declare function getDomMarkupAt(sourceFile: ts.SourceFile, position: number): StringLikeNode | undefined;
+/** Custom element tag names spelled in HTML markup inside a string, in start and end tags, e.g. both `my-card`s in `'<my-card></my-card>'` */
+export declare function findHtmlTags(node: StringLikeNode): {
+    tag: string;
+    textSpan: ts.TextSpan;
+}[];
+/** A custom element tag name spelled in HTML markup inside a string, e.g. `my-card` in `'<my-card open>'` */
+export declare function getHtmlTagAt(sourceFile: ts.SourceFile, position: number): {
+    tag: string;
+    textSpan: ts.TextSpan;
+} | undefined;
+/** Span of the partial tag name being typed after `<` in an HTML string, or `undefined` when not completing a tag */
+export declare function getHtmlTagCompletionSpan(sourceFile: ts.SourceFile, position: number): ts.TextSpan | undefined;
+export interface HtmlAttribute {
+    name: string;
+    textSpan: ts.TextSpan;
+    /** `undefined` for a bare attribute such as `<my-card open>` */
+    value?: string;
+    /** Span of the value without its quotes */
+    valueSpan?: ts.TextSpan;
+}
+export interface HtmlElement {
+    tag: string;
+    textSpan: ts.TextSpan;
+    attributes: HtmlAttribute[];
+}
+/**
+ * Custom element start tags spelled in HTML markup inside a string, with their attributes. Markup
+ * split by template substitutions is only read up to the substitution.
+ */
+export declare function getHtmlElements(node: StringLikeNode): HtmlElement[];
+/** The attribute whose quoted value is being typed in HTML markup inside a string, e.g. `size` in `'<my-card size="l|'` */
+export declare function getHtmlAttributeValueContext(sourceFile: ts.SourceFile, position: number): {
+    tag: string;
+    attribute: string;
+    replacementSpan: ts.TextSpan;
+} | undefined;
+/** The attribute name being typed in a custom element start tag in HTML markup inside a string, e.g. `'<my-card open s|'` */
+export declare function getHtmlAttributeNameContext(sourceFile: ts.SourceFile, position: number): {
+    tag: string;
+    present: string[];
+    replacementSpan: ts.TextSpan;
+} | undefined;
@@ -3,3 +3,9 @@ export declare type TagCondition = string;
 export declare function findNode(sourceFile: ts.SourceFile, position: number): ts.Node | undefined;
 export declare function findAllNodes(sourceFile: ts.SourceFile, cond: (n: ts.Node) => boolean): ts.Node[];
 export declare function isTagged(node: ts.Node, condition: TagCondition): boolean;
+/** The object literal the cursor is typing a key of, along with the key being typed */
+export declare function getObjectLiteralAt(sourceFile: ts.SourceFile, position: number): {
+    literal: ts.ObjectLiteralExpression;
+    property?: ts.ObjectLiteralElementLike;
+    replacementSpan?: ts.TextSpan;
+} | undefined;
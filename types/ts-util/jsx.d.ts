@@ -0,0 +1,17 @@
+import * as ts from 'typescript/lib/tsserverlibrary';
+export declare type JsxTagElement = ts.JsxOpeningElement | ts.JsxSelfClosingElement;
+export interface JsxCompletionContext {
+    kind: 'tag' | 'attribute' | 'text';
+    element?: JsxTagElement;
+    replacementSpan: ts.TextSpan;
+}
+export declare function isJsxTagElement(node: ts.Node): node is JsxTagElement;
+export declare function getJsxTagName(element: JsxTagElement): string;
+export declare function getJsxAttributeNames(element: JsxTagElement): string[];
+/** Whether an element is self-closing or already has its own closing tag, never true for a bare `<` */
+export declare function hasClosingTag(element: JsxTagElement): boolean;
+/**
+ * Classifies a completion position inside JSX as a tag name, an attribute name, or plain text
+ * between elements, along with the span a completion should replace.
+ */
+export declare function getJsxCompletionContext(sourceFile: ts.SourceFile, position: number): JsxCompletionContext | undefined;
@@ -0,0 +1,7 @@
+export declare function dirname(path: string): string;
+export declare function basename(path: string): string;
+export declare function normalize(path: string): string;
+export declare function resolve(from: string, to: string): string;
+/** Relative path from directory `from` to file `to`, always starting with `./` or `../` */
+export declare function relative(from: string, to: string): string;
+export declare function isWithin(path: string, dir: string): boolean;
@@ -3,3 +3,10 @@ export declare function checkType(type: ts.Type, check: (type: ts.Type) => boole
 export declare function isBoolean(t: ts.Type): boolean;
 export declare function isNumber(t: ts.Type): boolean;
 export declare function isString(t: ts.Type): boolean;
+/**
+ * Approximates whether `source` is assignable to `target`, as the type checker of this TypeScript
+ * version does not expose assignability. Only clear mismatches return `false`: different kinds of
+ * primitives, literals outside of the target, objects missing required properties and instances
+ * of the same generic type with mismatched type arguments. Anything else is treated as assignable.
+ */
+export declare function isProbablyAssignable(checker: ts.TypeChecker, source: ts.Type, target: ts.Type, depth?: number): boolean;